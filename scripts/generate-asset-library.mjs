@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+/**
+ * Rescans public/ and writes public/library.json, the manifest behind the
+ * model and animation pickers.
+ *
+ * - Models: public/models/**\/*.vrm
+ * - Animations: public/animations/**\/*.{fbx,glb,gltf,bvh,vrma,json,csv}
+ *
+ * Names, tags, durations and thumbnails already in the manifest are kept,
+ * so hand edits and thumbnails exported from the app survive a rescan. New
+ * files get a name from their file name, tags guessed from keywords and a
+ * duration where it can be read without a 3D runtime (BVH, glTF, VRMA).
+ *
+ * Thumbnails reach the shared manifest in one of two ways:
+ * - Add an image to public/thumbnails with the asset's base name, e.g.
+ *   public/thumbnails/arm-raise.png for public/animations/arm-raise.fbx,
+ *   and rescan.
+ * - Generate them in the app's Library tab, export the manifest there and
+ *   save it over public/library.json. Generated thumbnails otherwise only
+ *   live in that browser.
+ *
+ * The manifest is tracked, so run this by hand after adding or removing
+ * assets and commit the result.
+ *
+ * Usage: pnpm library
+ */
+import { existsSync } from "node:fs";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const PUBLIC_DIR = path.resolve(import.meta.dirname, "..", "public");
+const MANIFEST_PATH = path.join(PUBLIC_DIR, "library.json");
+
+const MODEL_EXTENSIONS = [".vrm"];
+const ANIMATION_EXTENSIONS = [
+  ".fbx",
+  ".glb",
+  ".gltf",
+  ".bvh",
+  ".vrma",
+  ".json",
+  ".csv",
+];
+const THUMBNAIL_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp"];
+
+// File name keywords that suggest a tag for new entries
+const TAG_KEYWORDS = {
+  "upper body": [
+    "arm",
+    "shoulder",
+    "elbow",
+    "wrist",
+    "hand",
+    "clap",
+    "wave",
+    "reach",
+    "neck",
+    "press",
+  ],
+  "lower body": [
+    "leg",
+    "knee",
+    "hip",
+    "ankle",
+    "squat",
+    "lunge",
+    "step",
+    "walk",
+    "calf",
+    "bridge",
+  ],
+  balance: ["balance", "stand", "tandem", "sway", "single", "idle"],
+};
+
+const listFiles = async (dir, extensions) => {
+  if (!existsSync(dir)) return [];
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(
+      (entry) =>
+        entry.isFile() &&
+        extensions.includes(path.extname(entry.name).toLowerCase())
+    )
+    .map((entry) => path.join(entry.parentPath ?? entry.path, entry.name))
+    .sort();
+};
+
+const toUrl = (file) =>
+  "/" + path.relative(PUBLIC_DIR, file).split(path.sep).join("/");
+
+const baseName = (file) => path.basename(file, path.extname(file));
+
+// "arm-raise_left" -> "Arm Raise Left"
+const toDisplayName = (file) =>
+  baseName(file)
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+const guessTags = (file) => {
+  const name = baseName(file).toLowerCase();
+  return Object.entries(TAG_KEYWORDS)
+    .filter(([, keywords]) => keywords.some((word) => name.includes(word)))
+    .map(([tag]) => tag);
+};
+
+// Longest animation sampler input in a glTF JSON document
+const gltfDuration = (gltf) => {
+  let duration = 0;
+  (gltf.animations ?? []).forEach((animation) => {
+    (animation.samplers ?? []).forEach((sampler) => {
+      const max = gltf.accessors?.[sampler.input]?.max?.[0];
+      if (typeof max === "number") duration = Math.max(duration, max);
+    });
+  });
+  return duration > 0 ? duration : null;
+};
+
+// The JSON chunk of a binary glTF (GLB, VRM, VRMA)
+const readGlbJson = (buffer) => {
+  if (buffer.readUInt32LE(0) !== 0x46546c67) return null;
+  const chunkLength = buffer.readUInt32LE(12);
+  if (buffer.readUInt32LE(16) !== 0x4e4f534a) return null;
+  return JSON.parse(buffer.subarray(20, 20 + chunkLength).toString("utf8"));
+};
+
+const readDuration = async (file) => {
+  const extension = path.extname(file).toLowerCase();
+  try {
+    if (extension === ".bvh") {
+      const text = await readFile(file, "utf8");
+      const frames = Number(text.match(/Frames:\s*(\d+)/)?.[1]);
+      const frameTime = Number(text.match(/Frame Time:\s*([\d.eE+-]+)/)?.[1]);
+      return frames > 0 && frameTime > 0 ? frames * frameTime : null;
+    }
+    if (extension === ".gltf") {
+      return gltfDuration(JSON.parse(await readFile(file, "utf8")));
+    }
+    if (extension === ".glb" || extension === ".vrma") {
+      const gltf = readGlbJson(await readFile(file));
+      return gltf ? gltfDuration(gltf) : null;
+    }
+  } catch (err) {
+    console.warn(`Could not read a duration from ${toUrl(file)}:`, err);
+  }
+  // FBX and pose recordings are measured in the app instead
+  return null;
+};
+
+const findThumbnail = (file, thumbnails) => {
+  const name = baseName(file).toLowerCase();
+  const match = thumbnails.find(
+    (thumbnail) => baseName(thumbnail).toLowerCase() === name
+  );
+  return match ? toUrl(match) : null;
+};
+
+const readManifest = async () => {
+  if (!existsSync(MANIFEST_PATH)) return { models: [], animations: [] };
+  try {
+    return JSON.parse(await readFile(MANIFEST_PATH, "utf8"));
+  } catch (err) {
+    console.warn("Ignoring unreadable library.json:", err);
+    return { models: [], animations: [] };
+  }
+};
+
+const buildEntries = async (kind, files, previous, thumbnails) => {
+  const previousByUrl = new Map(
+    (Array.isArray(previous) ? previous : []).map((entry) => [entry.url, entry])
+  );
+  return Promise.all(
+    files.map(async (file) => {
+      const url = toUrl(file);
+      const existing = previousByUrl.get(url) ?? {};
+      return {
+        id: existing.id ?? url.replace(/^\//, ""),
+        kind,
+        name: existing.name ?? toDisplayName(file),
+        url,
+        tags: existing.tags ?? guessTags(file),
+        duration:
+          existing.duration ??
+          (kind === "animation" ? await readDuration(file) : null),
+        thumbnail: existing.thumbnail ?? findThumbnail(file, thumbnails),
+      };
+    })
+  );
+};
+
+const main = async () => {
+  const previous = await readManifest();
+  const thumbnails = await listFiles(
+    path.join(PUBLIC_DIR, "thumbnails"),
+    THUMBNAIL_EXTENSIONS
+  );
+  const models = await buildEntries(
+    "model",
+    await listFiles(path.join(PUBLIC_DIR, "models"), MODEL_EXTENSIONS),
+    previous.models,
+    thumbnails
+  );
+  const animations = await buildEntries(
+    "animation",
+    await listFiles(path.join(PUBLIC_DIR, "animations"), ANIMATION_EXTENSIONS),
+    previous.animations,
+    thumbnails
+  );
+
+  await writeFile(
+    MANIFEST_PATH,
+    JSON.stringify({ version: 1, models, animations }, null, 2) + "\n"
+  );
+  console.log(
+    `Wrote ${toUrl(MANIFEST_PATH)}: ${models.length} models, ${animations.length} animations`
+  );
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
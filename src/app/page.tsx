@@ -1,851 +1,214 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 "use client";
-import { useEffect, useRef, useState } from "react";
-import * as THREE from "three";
-import {
-  GLTFLoader,
-  GLTFLoaderPlugin,
-} from "three/addons/loaders/GLTFLoader.js";
-import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
-import {
-  VRMLoaderPlugin,
-  VRM,
-  VRMExpressionPresetName,
-  VRMHumanBoneName,
-} from "@pixiv/three-vrm";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-type VRMContainer = HTMLDivElement & {
-  loadVRM?: (url: string) => void;
-  playAnimation?: (url: string) => void;
-  setExpression?: (expression: string, weight?: number) => void;
-};
-
-// Animation control function type
-type AnimationControl = {
-  playAnimation: (animationUrl: string) => void;
-  stopAnimation: () => void;
-  setExpression: (expression: string, weight?: number) => void;
-  resetExpressions: () => void;
-};
-
-// Centralized configuration
-const adjust = 0;
-const hexToColor = (hex: string): number => {
-  return parseInt(hex.replace("#", "0x"), 16);
-};
-const RENDER_CONFIG = {
-  // Scene settings
-  backgroundColor: 0xffffff,
-
-  // Camera settings
-  camera: {
-    fov: 45,
-    near: 0.1,
-    far: 100,
-    position: {
-      x: 0,
-      y: 1.5 + adjust,
-      z: 1.25,
-    },
-    lookAt: {
-      x: 0,
-      y: 1.3 + adjust,
-      z: 0,
-    },
-  },
-
-  // Lighting settings
-  hemisphereLight: {
-    skyColor: hexToColor("#ffffff"),
-    groundColor: hexToColor("#ffffff"),
-    intensity: 1,
-  },
-  directionalLight: {
-    color: hexToColor("#ffffff"),
-    intensity: 0.9,
-    position: {
-      x: -1,
-      y: 1.75,
-      z: 1,
-    },
-    shadowMapSize: 2048,
-  },
-  ambientLight: {
-    color: hexToColor("#e0f8f5"),
-    intensity: 0.85,
-  },
-
-  // Material settings
-  wallMaterial: {
-    color: hexToColor("#ccfef7"),
-    roughness: 0.8,
-    metalness: 0.2,
-  },
-  // Shadow settings
-  shadowBias: -0.0005,
-
-  // UI settings
-  showControls: true,
-
-  // Disable Camera Manual Rotation and Zoom
-  disableCameraRotation: false,
-
-  // Expression preset weights
-  expressionWeight: 1.0,
-
-  // Available expressions
-  expressions: [
-    "neutral",
-    "happy",
-    "angry",
-    "sad",
-    "relaxed",
-    "surprised",
-    "aa",
-    "ih",
-    "ou",
-    "ee",
-    "oh",
-    "blink",
-    "blinkLeft",
-    "blinkRight",
-    // Not Yet Working
-    // "lookUp",
-    // "lookDown",
-    // "lookLeft",
-    // "lookRight",
-  ],
-};
+import { AssetPicker } from "@/components/avatar/asset-picker";
+import { BoneMapPanel } from "@/components/avatar/bone-map-panel";
+import { CameraPanel } from "@/components/avatar/camera-panel";
+import { ComparePanel } from "@/components/avatar/compare-panel";
+import { DebugPanel } from "@/components/avatar/debug-panel";
+import { ExpressionPanel } from "@/components/avatar/expression-panel";
+import { JointAnglePanel } from "@/components/avatar/joint-angle-panel";
+import { LibraryPanel } from "@/components/avatar/library-panel";
+import {
+  LocalFileDrop,
+  OpenFilesButton,
+} from "@/components/avatar/local-file-drop";
+import { LookAtPanel } from "@/components/avatar/look-at-panel";
+import { PlaylistPanel } from "@/components/avatar/playlist-panel";
+import { RepHud } from "@/components/avatar/rep-hud";
+import { SessionOverlay } from "@/components/avatar/session-overlay";
+import { SessionPanel } from "@/components/avatar/session-panel";
+import { SettingsPanel } from "@/components/avatar/settings-panel";
+import { SplitViewPanel } from "@/components/avatar/split-view-panel";
+import { TransportBar } from "@/components/avatar/transport-bar";
+import { VoicePanel } from "@/components/avatar/voice-panel";
+import { useAssetLibrary } from "@/hooks/use-asset-library";
+import { useAvatarStage } from "@/hooks/use-avatar-stage";
+import { useLocalFiles } from "@/hooks/use-local-files";
+import { useRenderSettings } from "@/hooks/use-render-settings";
+import { useRepCounter } from "@/hooks/use-rep-counter";
+import { useSessionRunner } from "@/hooks/use-session-runner";
+import { isAbortError } from "@/lib/avatar/errors";
+
+const DEFAULT_MODEL_URL = "/models/daw.vrm";
+const REP_NOTICE_DURATION_MS = 4000;
 
 export default function VRMViewer() {
-  const containerRef = useRef<VRMContainer>(null);
+  const [error, setError] = useState<string>("");
+  const {
+    settings: renderSettings,
+    config,
+    updateDeviceSettings,
+    resetDeviceSettings,
+  } = useRenderSettings(setError);
+  const { containerRef, stage } = useAvatarStage(config);
+  const [splitView, setSplitView] = useState<boolean>(false);
+  const [tab, setTab] = useState<string>("model");
+  const { containerRef: secondContainerRef, stage: secondStage } =
+    useAvatarStage(config);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [modelUrl, setModelUrl] = useState<string>("/models/daw.vrm");
+  const [modelUrl, setModelUrl] = useState<string>(DEFAULT_MODEL_URL);
   const [animationUrl, setAnimationUrl] = useState<string>("");
-  const [error, setError] = useState<string>("");
-  const [showUI, setShowUI] = useState<boolean>(RENDER_CONFIG.showControls);
-  const [activeExpression, setActiveExpression] = useState<string>("");
-
-  // Animation control ref to allow access from outside
-  const animationControlRef = useRef<AnimationControl | null>(null);
+  const [showUI, setShowUI] = useState<boolean>(config.showControls);
+  const [mirrored, setMirrored] = useState<boolean>(false);
+  const { library, reload: reloadLibrary } = useAssetLibrary(setError);
+  const {
+    open: openLocalFiles,
+    models: localModels,
+    animations: localAnimations,
+  } = useLocalFiles();
+  const {
+    session,
+    loadSession,
+    runner: sessionRunner,
+    state: sessionState,
+  } = useSessionRunner(stage, setError);
+  const [targetReps, setTargetReps] = useState<string>("0");
+  const [targetSets, setTargetSets] = useState<string>("1");
+  const [repNotice, setRepNotice] = useState<string>("");
+  const { counter: repCounter, state: repState } = useRepCounter(
+    stage,
+    ({ target }) =>
+      setRepNotice(
+        target
+          ? `Well done! ${target.sets} × ${target.reps} reps complete`
+          : "Well done!"
+      )
+  );
 
-  // Setup and render the scene
+  // Show the rep target notice for a few seconds
   useEffect(() => {
-    if (!containerRef.current) return;
-
-    // Scene setup
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(RENDER_CONFIG.backgroundColor);
-
-    // Camera setup
-    const camera = new THREE.PerspectiveCamera(
-      RENDER_CONFIG.camera.fov,
-      window.innerWidth / window.innerHeight,
-      RENDER_CONFIG.camera.near,
-      RENDER_CONFIG.camera.far
-    );
-    camera.position.set(
-      RENDER_CONFIG.camera.position.x,
-      RENDER_CONFIG.camera.position.y,
-      RENDER_CONFIG.camera.position.z
-    );
-    camera.lookAt(
-      RENDER_CONFIG.camera.lookAt.x,
-      RENDER_CONFIG.camera.lookAt.y,
-      RENDER_CONFIG.camera.lookAt.z
-    );
-
-    // Renderer setup
-    const renderer = new THREE.WebGLRenderer({
-      antialias: true,
-    });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(window.devicePixelRatio);
-    renderer.toneMapping = THREE.ACESFilmicToneMapping;
-    renderer.outputColorSpace = THREE.SRGBColorSpace;
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    containerRef.current.innerHTML = "";
-    containerRef.current.appendChild(renderer.domElement);
-
-    // Controls setup
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controls.minDistance = 1;
-    controls.maxDistance = 10;
-    controls.target.set(
-      RENDER_CONFIG.camera.lookAt.x,
-      RENDER_CONFIG.camera.lookAt.y,
-      RENDER_CONFIG.camera.lookAt.z
+    if (!repNotice) return;
+    const timeout = window.setTimeout(
+      () => setRepNotice(""),
+      REP_NOTICE_DURATION_MS
     );
+    return () => window.clearTimeout(timeout);
+  }, [repNotice]);
 
-    // Disable manual rotation and zoom
-    if (RENDER_CONFIG.disableCameraRotation) {
-      controls.enableRotate = false;
-      controls.enableZoom = false;
-      controls.enablePan = false;
-    }
-
-    // Lighting setup
-    const hemiLight = new THREE.HemisphereLight(
-      RENDER_CONFIG.hemisphereLight.skyColor,
-      RENDER_CONFIG.hemisphereLight.groundColor,
-      RENDER_CONFIG.hemisphereLight.intensity
-    );
-    hemiLight.position.set(0, 50, 0);
-    scene.add(hemiLight);
-
-    const dirLight = new THREE.DirectionalLight(
-      RENDER_CONFIG.directionalLight.color,
-      RENDER_CONFIG.directionalLight.intensity
-    );
-    dirLight.position.set(
-      RENDER_CONFIG.directionalLight.position.x,
-      RENDER_CONFIG.directionalLight.position.y,
-      RENDER_CONFIG.directionalLight.position.z
-    );
-    dirLight.castShadow = true;
-    dirLight.shadow.mapSize.width =
-      RENDER_CONFIG.directionalLight.shadowMapSize;
-    dirLight.shadow.mapSize.height =
-      RENDER_CONFIG.directionalLight.shadowMapSize;
-    dirLight.shadow.camera.near = 0.5;
-    dirLight.shadow.camera.far = 50;
-    dirLight.shadow.camera.left = -5;
-    dirLight.shadow.camera.right = 5;
-    dirLight.shadow.camera.top = 5;
-    dirLight.shadow.camera.bottom = -5;
-    dirLight.shadow.bias = RENDER_CONFIG.shadowBias;
-    scene.add(dirLight);
-
-    const ambLight = new THREE.AmbientLight(
-      RENDER_CONFIG.ambientLight.color,
-      RENDER_CONFIG.ambientLight.intensity
-    );
-    scene.add(ambLight);
-
-    // Room setup
-    const floorGeometry = new THREE.PlaneGeometry(20, 20);
-    const wallMaterial = new THREE.MeshStandardMaterial({
-      color: RENDER_CONFIG.wallMaterial.color,
-      side: THREE.DoubleSide,
-      roughness: RENDER_CONFIG.wallMaterial.roughness,
-      metalness: RENDER_CONFIG.wallMaterial.metalness,
-    });
-
-    const floor = new THREE.Mesh(floorGeometry, wallMaterial);
-    floor.rotation.x = -Math.PI / 2;
-    floor.receiveShadow = true;
-    scene.add(floor);
-
-    const backWall = new THREE.Mesh(floorGeometry, wallMaterial);
-    backWall.position.z = -10;
-    backWall.position.y = 10;
-    backWall.receiveShadow = true;
-    scene.add(backWall);
-
-    const leftWall = new THREE.Mesh(floorGeometry, wallMaterial);
-    leftWall.position.x = -10;
-    leftWall.position.y = 10;
-    leftWall.rotation.y = Math.PI / 2;
-    leftWall.receiveShadow = true;
-    scene.add(leftWall);
-
-    const rightWall = new THREE.Mesh(floorGeometry, wallMaterial);
-    rightWall.position.x = 10;
-    rightWall.position.y = 10;
-    rightWall.rotation.y = -Math.PI / 2;
-    rightWall.receiveShadow = true;
-    scene.add(rightWall);
-
-    // Animation and model variables
-    let currentVrm: VRM | null = null;
-    let mixer: THREE.AnimationMixer | null = null;
-    let activeAction: THREE.AnimationAction | null = null;
-
-    const animate = (): void => {
-      requestAnimationFrame(animate);
-
-      const delta = clock.getDelta();
-
-      // Update VRM animations
-      if (currentVrm) {
-        currentVrm.update(delta);
-      }
-
-      // Update animation mixer
-      if (mixer) {
-        mixer.update(delta);
-      }
-
-      controls.update();
-      renderer.render(scene, camera);
-    };
-
-    const clock = new THREE.Clock();
-    animate();
-
-    // Function to load animation and apply it to current VRM
-    const playAnimation = (animationUrl: string): void => {
-      if (!currentVrm || !animationUrl) return;
-
-      // Clear previous animation
-      if (activeAction) {
-        activeAction.fadeOut(0.5);
-        activeAction = null;
-      }
-
-      // Determine file type
-      const isGLTF =
-        animationUrl.toLowerCase().endsWith(".glb") ||
-        animationUrl.toLowerCase().endsWith(".gltf");
-      const isFBX = animationUrl.toLowerCase().endsWith(".fbx");
-
-      if (isFBX) {
-        // Use FBXLoader for FBX files
-        const loader = new FBXLoader();
-        loader.load(
-          animationUrl,
-          (fbx) => {
-            if (!currentVrm) return;
-
-            console.log("FBX loaded:", fbx);
-
-            // Create animation mixer if it doesn't exist
-            if (!mixer) {
-              mixer = new THREE.AnimationMixer(
-                currentVrm.scene as unknown as THREE.Object3D
-              );
-            }
-
-            // Get animations from FBX
-            const animations = fbx.animations;
-            if (!animations || animations.length === 0) {
-              setError("No animation found in the FBX file");
-              return;
-            }
-
-            console.log("FBX animations found:", animations.length);
-
-            try {
-              // Create a bone mapping between FBX and VRM
-              const boneMapping: Record<
-                string,
-                THREE.Object3D<THREE.Object3DEventMap>
-              > = {};
-
-              // Map VRM humanoid bones to THREE.Object3D for animation
-              if (currentVrm.humanoid) {
-                // This maps standard humanoid bones to the actual VRM model bones
-                Object.values(VRMHumanBoneName).forEach((boneName) => {
-                  const vrmBone =
-                    currentVrm!.humanoid!.getRawBoneNode(boneName);
-                  if (!(vrmBone instanceof THREE.Object3D))
-                    throw new Error("VRM bone is not an Object3D");
-
-                  if (vrmBone) {
-                    // Use the bone name as key for mapping
-                    boneMapping[boneName] = vrmBone;
-
-                    // Also try common naming patterns
-                    const lowerName = boneName.toLowerCase();
-                    boneMapping[lowerName] = vrmBone;
-
-                    // Add common FBX naming conventions
-                    if (lowerName.includes("spine")) {
-                      boneMapping["spine"] = vrmBone;
-                    }
-                    if (lowerName.includes("neck")) {
-                      boneMapping["neck"] = vrmBone;
-                    }
-                    if (lowerName.includes("head")) {
-                      boneMapping["head"] = vrmBone;
-                    }
-                    if (lowerName.includes("lefthand")) {
-                      boneMapping["hand_l"] = vrmBone;
-                      boneMapping["left_hand"] = vrmBone;
-                    }
-                    if (lowerName.includes("righthand")) {
-                      boneMapping["hand_r"] = vrmBone;
-                      boneMapping["right_hand"] = vrmBone;
-                    }
-                    // Add more mappings as needed
-                  }
-                });
-              }
-
-              // Clone the animation to avoid modifying the original
-              const clip = animations[0].clone();
-
-              // Create a new clip with mapped tracks
-              const tracks: THREE.KeyframeTrack[] = [];
-
-              // Process each track in the animation
-              clip.tracks.forEach((track) => {
-                // Extract the bone name from the track name (format is usually "boneName.property")
-                const trackSplit = track.name.split(".");
-                if (trackSplit.length < 2) return;
-
-                const fbxBoneName = trackSplit[0];
-                const property = trackSplit[1];
-
-                // Find corresponding VRM bone
-                let vrmBone: THREE.Object3D | null = null;
-
-                // Try direct mapping first
-                if (boneMapping[fbxBoneName]) {
-                  vrmBone = boneMapping[fbxBoneName];
-                } else {
-                  // Try to find closest match
-                  const fbxNameLower = fbxBoneName.toLowerCase();
-                  for (const [key, bone] of Object.entries(boneMapping)) {
-                    if (
-                      fbxNameLower.includes(key.toLowerCase()) ||
-                      key.toLowerCase().includes(fbxNameLower)
-                    ) {
-                      vrmBone = bone;
-                      break;
-                    }
-                  }
-                }
-
-                // If we found a matching bone, create a new track
-                if (vrmBone) {
-                  // Create a new track with the VRM bone name
-                  const newTrackName = `${vrmBone.name}.${property}`;
-
-                  // Clone the track with new name
-                  let newTrack: THREE.KeyframeTrack;
-
-                  if (track instanceof THREE.QuaternionKeyframeTrack) {
-                    newTrack = new THREE.QuaternionKeyframeTrack(
-                      newTrackName,
-                      [...track.times],
-                      [...track.values]
-                    );
-                  } else if (track instanceof THREE.VectorKeyframeTrack) {
-                    newTrack = new THREE.VectorKeyframeTrack(
-                      newTrackName,
-                      [...track.times],
-                      Array.from(track.values)
-                    );
-                  } else {
-                    // Other track types
-                    newTrack = new THREE.KeyframeTrack(
-                      newTrackName,
-                      [...track.times],
-                      Array.from(track.values)
-                    );
-                  }
-
-                  tracks.push(newTrack);
-                }
-              });
-
-              // If we couldn't map any tracks, fall back to simple animation
-              if (tracks.length === 0) {
-                console.warn(
-                  "No tracks could be mapped - falling back to simple animation"
-                );
-
-                // Create a simple animation that moves the model
-                const duration = 2.0;
-                const positionTrack = new THREE.VectorKeyframeTrack(
-                  ".position",
-                  [0, duration / 2, duration],
-                  [0, 0, 0, 0, 0.1, 0, 0, 0, 0]
-                );
-
-                const customClip = new THREE.AnimationClip(
-                  "fallback-motion",
-                  duration,
-                  [positionTrack]
-                );
-
-                const action = mixer.clipAction(customClip);
-                action.clampWhenFinished = false;
-                action.setLoop(THREE.LoopRepeat, Infinity);
-                action.timeScale = 1.0;
-                action.reset().fadeIn(0.5).play();
-                activeAction = action;
-
-                console.log("Playing fallback animation");
-              } else {
-                // Create new animation clip with mapped tracks
-                const newClip = new THREE.AnimationClip(
-                  "retargeted-animation",
-                  clip.duration,
-                  tracks
-                );
-
-                // Play the animation
-                const action = mixer.clipAction(newClip);
-                action.clampWhenFinished = false;
-                action.setLoop(THREE.LoopRepeat, Infinity);
-                action.timeScale = 1.0;
-                action.reset().fadeIn(0.5).play();
-                activeAction = action;
-
-                console.log(
-                  `Playing animation with ${tracks.length} mapped tracks`
-                );
-              }
-            } catch (err) {
-              console.error("Error applying animation:", err);
-              setError(
-                `Error applying animation: ${
-                  err instanceof Error ? err.message : String(err)
-                }`
-              );
-            }
-          },
-          (progress) => {
-            console.log(
-              "Animation loading progress:",
-              (progress.loaded / progress.total) * 100,
-              "%"
-            );
-          },
-          (error) => {
-            console.error("Error loading animation:", error);
-            let message = "Unknown error";
-            if (error instanceof Error) {
-              message = error.message;
-            } else if (
-              typeof error === "object" &&
-              error &&
-              "message" in error
-            ) {
-              message = String((error as { message: unknown }).message);
-            }
-            setError(`Failed to load animation: ${message}`);
-          }
-        );
-      } else {
-        // Default to GLTFLoader for GLB/GLTF files
-        const loader = new GLTFLoader();
-        loader.load(
-          animationUrl,
-          (gltf) => {
-            if (!currentVrm) return;
-
-            // Create a new animation mixer if needed
-            if (!mixer) {
-              mixer = new THREE.AnimationMixer(
-                currentVrm.scene as unknown as THREE.Object3D
-              );
-            }
-
-            // Get animation
-            const clip = gltf.animations[0];
-            if (!clip) {
-              console.error("No animation found in the file");
-              return;
-            }
-
-            // Apply the animation
-            const action = mixer.clipAction(clip);
-            action.reset().fadeIn(0.5).play();
-            activeAction = action;
-
-            console.log(`Playing animation: ${animationUrl}`);
-          },
-          (progress) => {
-            console.log(
-              "Animation loading progress:",
-              (progress.loaded / progress.total) * 100,
-              "%"
-            );
-          },
-          (error) => {
-            console.error("Error loading animation:", error);
-            let message = "Unknown error";
-            if (error instanceof Error) {
-              message = error.message;
-            } else if (
-              typeof error === "object" &&
-              error &&
-              "message" in error
-            ) {
-              message = String((error as { message: unknown }).message);
-            }
-            setError(`Failed to load animation: ${message}`);
-          }
-        );
-      }
-    };
-
-    // Function to stop any playing animation
-    const stopAnimation = (): void => {
-      if (activeAction) {
-        activeAction.fadeOut(0.5);
-        activeAction = null;
-      }
-    };
-
-    // Function to set VRM expression
-    const setExpression = (
-      expression: string,
-      weight = RENDER_CONFIG.expressionWeight
-    ): void => {
-      if (!currentVrm || !currentVrm.expressionManager) {
-        console.warn("No VRM loaded or no expression manager available");
-        return;
-      }
+  // The profile decides whether the controls start out shown
+  useEffect(() => {
+    setShowUI(config.showControls);
+  }, [config.showControls]);
 
-      // Reset all expressions first
-      resetExpressions();
-
-      // Set the new expression
-      currentVrm.expressionManager.setValue(
-        expression as VRMExpressionPresetName,
-        weight
-      );
-      setActiveExpression(expression);
-
-      console.log(`Set expression: ${expression} with weight ${weight}`);
-    };
-
-    // Function to reset all expressions
-    const resetExpressions = (): void => {
-      if (!currentVrm || !currentVrm.expressionManager) return;
-
-      RENDER_CONFIG.expressions.forEach((expr) => {
-        try {
-          currentVrm!.expressionManager!.setValue(
-            expr as VRMExpressionPresetName,
-            0
-          );
-        } catch (e) {
-          // Ignore if expression doesn't exist
-        }
+  // Count each session exercise against its prescribed reps and sets
+  useEffect(() => {
+    if (!repCounter || !session) return;
+    session.exercises.forEach((exercise) => {
+      repCounter.setTarget(exercise.animationUrl, {
+        reps: exercise.reps,
+        sets: exercise.sets,
       });
+    });
+  }, [repCounter, session]);
 
-      setActiveExpression("");
-    };
-
-    // Set up animation control ref
-    animationControlRef.current = {
-      playAnimation,
-      stopAnimation,
-      setExpression,
-      resetExpressions,
-    };
-
-    // Handle window resize
-    const handleResize = (): void => {
-      if (!containerRef.current) return;
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(window.innerWidth, window.innerHeight);
-    };
+  // Play clips for the other side while mirrored
+  useEffect(() => {
+    stage?.setMirrored(mirrored);
+  }, [stage, mirrored]);
 
-    window.addEventListener("resize", handleResize);
+  // Aborts the model load in progress; a newer load replaces it
+  const modelLoadRef = useRef<AbortController | null>(null);
 
-    // Load VRM model function
-    const loadVRM = (url: string): void => {
-      if (!url) return;
+  const loadModel = useCallback(
+    async (url: string): Promise<void> => {
+      if (!stage || !url) return;
 
+      modelLoadRef.current?.abort();
+      const controller = new AbortController();
+      modelLoadRef.current = controller;
       setIsLoading(true);
       setError("");
-
-      // Clear previous model
-      if (currentVrm) {
-        scene.remove(currentVrm.scene as unknown as THREE.Object3D);
-        currentVrm = null;
-      }
-
-      // Reset animation data
-      mixer = null;
-      activeAction = null;
-      resetExpressions();
-
-      // Load the model
-      const loader = new GLTFLoader();
-      // Register VRMLoaderPlugin for GLTFLoader
-      loader.register(
-        (parser) => new VRMLoaderPlugin(parser) as unknown as GLTFLoaderPlugin
-      );
-
-      loader.load(
-        url,
-        (gltf) => {
-          const vrm = gltf.userData.vrm as VRM;
-          if (vrm) {
-            currentVrm = vrm;
-
-            // Configure the VRM
-            vrm.scene.traverse((object) => {
-              if (object instanceof THREE.Mesh) {
-                object.castShadow = true;
-                object.receiveShadow = true;
-
-                if (object.material) {
-                  if (Array.isArray(object.material)) {
-                    object.material.forEach((mat) => {
-                      if (mat.isMeshStandardMaterial) {
-                        mat.envMapIntensity = 1;
-                      }
-                    });
-                  } else if (object.material.isMeshStandardMaterial) {
-                    object.material.envMapIntensity = 1;
-                  }
-                }
-              }
-            });
-
-            // Face camera
-            vrm.scene.rotation.y = 0;
-
-            // Add to scene
-            if (!(vrm.scene instanceof THREE.Object3D))
-              throw new Error("VRM scene is not an Object3D");
-
-            scene.add(vrm.scene);
-
-            // Center model
-            const box = new THREE.Box3().setFromObject(vrm.scene);
-            const center = box.getCenter(new THREE.Vector3());
-
-            vrm.scene.position.x = vrm.scene.position.x - center.x;
-            vrm.scene.position.z = vrm.scene.position.z - center.z;
-
-            console.log("VRM loaded successfully", vrm);
-
-            // Log available expressions
-            if (vrm.expressionManager) {
-              console.log(
-                "Available expressions:",
-                Object.keys(vrm.expressionManager.expressions)
-              );
-            }
-
-            // Log bones for debugging
-            console.log("VRM humanoid bones:", vrm.humanoid);
-
-            // Print all bone nodes for mapping purposes
-            const boneNodes: Record<string, string> = {};
-            if (vrm.humanoid) {
-              Object.keys(vrm.humanoid.humanBones).forEach((boneName) => {
-                const bone = vrm.humanoid?.getRawBoneNode(
-                  boneName as VRMHumanBoneName
-                );
-                if (bone) {
-                  boneNodes[boneName] = bone.name;
-                }
-              });
-              console.log("Available VRM bones for mapping:", boneNodes);
-            }
-          } else {
-            setError("Failed to load VRM model: No VRM data found");
-          }
-          setIsLoading(false);
-        },
-        (progress) => {
-          console.log(
-            "Loading progress:",
-            (progress.loaded / progress.total) * 100,
-            "%"
-          );
-        },
-        (error: unknown) => {
-          let message = "Unknown error";
-          if (error instanceof Error) {
-            message = error.message;
-          } else if (typeof error === "object" && error && "message" in error) {
-            message = String((error as { message: unknown }).message);
-          }
-          console.error("Error loading VRM:", error);
-          setError(`Failed to load VRM model: ${message}`);
+      try {
+        await stage.loadVRM(url, { signal: controller.signal });
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (modelLoadRef.current === controller) {
+          modelLoadRef.current = null;
           setIsLoading(false);
         }
-      );
-    };
-
-    // Set up container methods
-    const container = containerRef.current;
-    if (container) {
-      container.loadVRM = loadVRM;
-      container.playAnimation = playAnimation;
-      container.setExpression = setExpression;
-    }
-
-    // Load initial model if URL is provided
-    if (modelUrl) {
-      loadVRM(modelUrl);
-    }
-
-    // Store the current container ref for cleanup
-    const cleanupContainer = container;
-
-    // Cleanup function
-    return () => {
-      window.removeEventListener("resize", handleResize);
-      renderer.dispose();
-      scene.clear();
-      controls.dispose();
-      if (cleanupContainer?.childNodes.length) {
-        cleanupContainer.removeChild(renderer.domElement);
       }
-    };
-  }, [modelUrl]);
+    },
+    [stage]
+  );
+
+  // Load the initial model
+  useEffect(() => {
+    loadModel(DEFAULT_MODEL_URL);
+  }, [loadModel]);
 
   // Handle loading model
   const handleLoadModel = (): void => {
-    if (!modelUrl) return;
-    if (
-      containerRef.current &&
-      typeof containerRef.current.loadVRM === "function"
-    ) {
-      containerRef.current.loadVRM(modelUrl);
-    }
+    loadModel(modelUrl);
   };
 
   // Handle playing animation
-  const handlePlayAnimation = (): void => {
-    if (!animationUrl) return;
-    if (
-      containerRef.current &&
-      typeof containerRef.current.playAnimation === "function"
-    ) {
-      containerRef.current.playAnimation(animationUrl);
+  const handlePlayAnimation = async (
+    url: string = animationUrl
+  ): Promise<void> => {
+    if (!stage || !url) return;
+
+    // Reps of 0 count without a target
+    const reps = Math.floor(Number(targetReps));
+    const sets = Math.max(1, Math.floor(Number(targetSets)) || 1);
+    repCounter?.setTarget(url, reps > 0 ? { reps, sets } : null);
+
+    try {
+      await stage.playAnimation(url);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
     }
   };
 
-  // Handle stopping animation
-  const handleStopAnimation = (): void => {
-    if (animationControlRef.current) {
-      animationControlRef.current.stopAnimation();
+  // Load the first model and play the first clip among the opened files
+  const handleLocalFiles = async (files: File[]): Promise<void> => {
+    const { opened, errors } = await openLocalFiles(files);
+    const model = opened.find(({ kind }) => kind === "model");
+    const animation = opened.find(({ kind }) => kind === "animation");
+    if (model) {
+      setModelUrl(model.url);
+      await loadModel(model.url);
     }
-  };
-
-  // Handle expression change
-  const handleSetExpression = (expression: string): void => {
-    if (
-      containerRef.current &&
-      typeof containerRef.current.setExpression === "function"
-    ) {
-      containerRef.current.setExpression(expression);
+    if (animation) {
+      setAnimationUrl(animation.url);
+      await handlePlayAnimation(animation.url);
+    }
+    if (errors.length > 0) {
+      setError((current) => [current, ...errors].filter(Boolean).join("\n"));
     }
   };
 
-  // Handle expression reset
-  const handleResetExpressions = (): void => {
-    if (animationControlRef.current) {
-      animationControlRef.current.resetExpressions();
-    }
+  // Handle stopping animation
+  const handleStopAnimation = (): void => {
+    stage?.stopAnimation();
   };
 
   return (
     <div className="flex flex-col w-full h-screen bg-white">
-      {/* VRM Viewer Container */}
-      <div ref={containerRef} className="w-full h-full relative" />
+      {/* VRM Viewer Container, split in two when a second avatar is shown */}
+      <LocalFileDrop onFiles={handleLocalFiles} className="flex w-full h-full">
+        <div ref={containerRef} className="h-full min-w-0 flex-1 relative" />
+        {splitView && (
+          <div
+            ref={secondContainerRef}
+            className="h-full min-w-0 flex-1 relative border-l"
+          />
+        )}
+      </LocalFileDrop>
+
+      {/* Exercise instructions */}
+      <SessionOverlay session={session} state={sessionState} />
+      <RepHud state={repState} notice={repNotice} />
 
       {/* UI Toggle */}
       {/* <div className="absolute top-4 right-4">
@@ -860,11 +223,23 @@ export default function VRMViewer() {
         <div className="absolute bottom-4 left-0 right-0 mx-auto p-4 flex flex-col items-center gap-2">
           <Card className="w-full max-w-lg bg-white bg-opacity-80">
             <CardContent className="p-4">
-              <Tabs defaultValue="model">
-                <TabsList className="grid w-full grid-cols-3">
+              <Tabs value={tab} onValueChange={setTab}>
+                <TabsList className="grid h-auto w-full grid-cols-4">
                   <TabsTrigger value="model">Model</TabsTrigger>
                   <TabsTrigger value="animation">Animation</TabsTrigger>
+                  <TabsTrigger value="playlist">Playlist</TabsTrigger>
+                  <TabsTrigger value="session">Session</TabsTrigger>
                   <TabsTrigger value="expression">Expression</TabsTrigger>
+                  <TabsTrigger value="voice">Voice</TabsTrigger>
+                  <TabsTrigger value="look">Look</TabsTrigger>
+                  <TabsTrigger value="camera">Camera</TabsTrigger>
+                  <TabsTrigger value="bones">Bones</TabsTrigger>
+                  <TabsTrigger value="compare">Compare</TabsTrigger>
+                  <TabsTrigger value="angles">Angles</TabsTrigger>
+                  <TabsTrigger value="split">Split</TabsTrigger>
+                  <TabsTrigger value="library">Library</TabsTrigger>
+                  <TabsTrigger value="settings">Settings</TabsTrigger>
+                  <TabsTrigger value="debug">Debug</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="model" className="mt-2">
@@ -873,29 +248,45 @@ export default function VRMViewer() {
                       placeholder="Enter VRM model URL"
                       value={modelUrl}
                       onChange={(e) => setModelUrl(e.target.value)}
-                      disabled={isLoading}
                       className="flex-1"
                     />
-                    <Button
-                      onClick={handleLoadModel}
-                      disabled={isLoading || !modelUrl}
-                    >
-                      {isLoading ? "Loading..." : "Load"}
-                    </Button>
+                    {isLoading ? (
+                      <Button
+                        variant="outline"
+                        onClick={() => modelLoadRef.current?.abort()}
+                      >
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button onClick={handleLoadModel} disabled={!modelUrl}>
+                        Load
+                      </Button>
+                    )}
+                    <OpenFilesButton onFiles={handleLocalFiles} />
+                  </div>
+                  <div className="mt-2">
+                    <AssetPicker
+                      entries={[...localModels, ...(library?.models ?? [])]}
+                      selectedUrl={modelUrl}
+                      onSelect={({ url }) => {
+                        setModelUrl(url);
+                        loadModel(url);
+                      }}
+                    />
                   </div>
                 </TabsContent>
 
-                <TabsContent value="animation" className="mt-2">
+                <TabsContent value="animation" className="mt-2" forceMount>
                   <div className="flex space-x-2">
                     <Input
-                      placeholder="Enter animation URL (.fbx/.glb file path)"
+                      placeholder="Enter animation URL (.fbx/.glb/.bvh/.vrma, pose .json/.csv)"
                       value={animationUrl}
                       onChange={(e) => setAnimationUrl(e.target.value)}
                       disabled={isLoading}
                       className="flex-1"
                     />
                     <Button
-                      onClick={handlePlayAnimation}
+                      onClick={() => handlePlayAnimation()}
                       disabled={isLoading || !animationUrl}
                     >
                       Play
@@ -903,37 +294,148 @@ export default function VRMViewer() {
                     <Button variant="outline" onClick={handleStopAnimation}>
                       Stop
                     </Button>
+                    <OpenFilesButton
+                      onFiles={handleLocalFiles}
+                      disabled={isLoading}
+                    />
                   </div>
-                </TabsContent>
-
-                <TabsContent value="expression" className="mt-2">
-                  <div className="grid grid-cols-3 gap-2">
-                    {RENDER_CONFIG.expressions.map((expr) => (
-                      <Button
-                        key={expr}
-                        variant={
-                          activeExpression === expr ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => handleSetExpression(expr)}
-                        className="text-xs"
-                      >
-                        {expr}
-                      </Button>
-                    ))}
+                  <div className="mt-2">
+                    <AssetPicker
+                      entries={[
+                        ...localAnimations,
+                        ...(library?.animations ?? []),
+                      ]}
+                      selectedUrl={animationUrl}
+                      onSelect={({ url }) => {
+                        setAnimationUrl(url);
+                        handlePlayAnimation(url);
+                      }}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="mt-2">
+                    <TransportBar stage={stage} />
+                  </div>
+                  <div className="mt-2 flex items-center space-x-2 text-sm">
+                    <span className="text-muted-foreground">Target</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={targetReps}
+                      onChange={(e) => setTargetReps(e.target.value)}
+                      className="h-8 w-16"
+                      aria-label="Target reps per set"
+                    />
+                    <span className="text-muted-foreground">reps ×</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={targetSets}
+                      onChange={(e) => setTargetSets(e.target.value)}
+                      className="h-8 w-16"
+                      aria-label="Target sets"
+                    />
+                    <span className="flex-1 text-muted-foreground">sets</span>
                     <Button
-                      variant="destructive"
+                      variant="outline"
                       size="sm"
-                      onClick={handleResetExpressions}
-                      className="col-span-3 mt-2"
+                      onClick={() => repCounter?.reset()}
                     >
-                      Reset Expressions
+                      Reset Count
                     </Button>
                   </div>
+                  <div className="mt-2 flex items-center space-x-2 text-sm">
+                    <Switch
+                      id="mirror"
+                      checked={mirrored}
+                      onCheckedChange={setMirrored}
+                    />
+                    <Label htmlFor="mirror">Mirror (swap left and right)</Label>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="playlist" className="mt-2" forceMount>
+                  <PlaylistPanel stage={stage} onError={setError} />
+                </TabsContent>
+
+                <TabsContent value="session" className="mt-2" forceMount>
+                  <SessionPanel
+                    session={session}
+                    runner={sessionRunner}
+                    state={sessionState}
+                    onLoadSession={loadSession}
+                    cameraPresets={stage?.cameraDirector.getPresetNames()}
+                  />
+                </TabsContent>
+
+                <TabsContent value="expression" className="mt-2" forceMount>
+                  <ExpressionPanel stage={stage} />
+                </TabsContent>
+
+                <TabsContent value="voice" className="mt-2" forceMount>
+                  <VoicePanel stage={stage} onError={setError} />
+                </TabsContent>
+
+                <TabsContent value="look" className="mt-2">
+                  <LookAtPanel stage={stage} />
+                </TabsContent>
+
+                <TabsContent value="camera" className="mt-2">
+                  <CameraPanel stage={stage} onError={setError} />
+                </TabsContent>
+
+                <TabsContent value="bones" className="mt-2" forceMount>
+                  <BoneMapPanel stage={stage} onError={setError} />
+                </TabsContent>
+
+                <TabsContent value="compare" className="mt-2" forceMount>
+                  <ComparePanel stage={stage} onError={setError} />
+                </TabsContent>
+
+                <TabsContent value="angles" className="mt-2" forceMount>
+                  <JointAnglePanel stage={stage} active={tab === "angles"} />
+                </TabsContent>
+
+                <TabsContent value="split" className="mt-2" forceMount>
+                  <SplitViewPanel
+                    enabled={splitView}
+                    onEnabledChange={setSplitView}
+                    stage={stage}
+                    secondStage={secondStage}
+                    defaultModelUrl={DEFAULT_MODEL_URL}
+                    onError={setError}
+                  />
+                </TabsContent>
+
+                <TabsContent value="library" className="mt-2" forceMount>
+                  <LibraryPanel
+                    stage={stage}
+                    library={library}
+                    onReload={reloadLibrary}
+                    onRestoreModel={() => loadModel(modelUrl)}
+                    onError={setError}
+                  />
+                </TabsContent>
+
+                <TabsContent value="settings" className="mt-2">
+                  <SettingsPanel
+                    stage={stage}
+                    settings={renderSettings}
+                    onChange={updateDeviceSettings}
+                    onReset={resetDeviceSettings}
+                  />
+                </TabsContent>
+
+                <TabsContent value="debug" className="mt-2">
+                  <DebugPanel stage={stage} />
                 </TabsContent>
               </Tabs>
 
-              {error && <p className="text-red-500 mt-2 text-sm">{error}</p>}
+              {error && (
+                <p className="text-red-500 mt-2 text-sm whitespace-pre-line">
+                  {error}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
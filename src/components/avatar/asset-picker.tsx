@@ -0,0 +1,104 @@
+"use client";
+import { useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ASSET_TAGS,
+  AssetEntry,
+  searchAssets,
+} from "@/lib/avatar/asset-library";
+
+type AssetPickerProps = {
+  entries: AssetEntry[];
+  selectedUrl?: string;
+  onSelect: (entry: AssetEntry) => void;
+  disabled?: boolean;
+};
+
+const formatDuration = (seconds: number | null): string =>
+  seconds === null ? "" : `${seconds.toFixed(1)}s`;
+
+/** Searchable, tag-filtered list of library models or clips. */
+export function AssetPicker({
+  entries,
+  selectedUrl,
+  onSelect,
+  disabled,
+}: AssetPickerProps) {
+  const [query, setQuery] = useState<string>("");
+  const [tags, setTags] = useState<string[]>([]);
+
+  const toggleTag = (tag: string): void =>
+    setTags((current) =>
+      current.includes(tag)
+        ? current.filter((existing) => existing !== tag)
+        : [...current, tag]
+    );
+
+  const results = searchAssets(entries, query, tags);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center space-x-2">
+        <Input
+          placeholder="Search the library"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8 flex-1"
+        />
+        {ASSET_TAGS.map((tag) => (
+          <Button
+            key={tag}
+            variant={tags.includes(tag) ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggleTag(tag)}
+          >
+            {tag}
+          </Button>
+        ))}
+      </div>
+      <ul className="max-h-48 overflow-y-auto rounded-md border">
+        {results.map((entry) => (
+          <li key={entry.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(entry)}
+              disabled={disabled}
+              className={`flex w-full items-center gap-2 p-1 text-left hover:bg-muted disabled:opacity-50 ${
+                entry.url === selectedUrl ? "bg-muted" : ""
+              }`}
+            >
+              {entry.thumbnail ? (
+                <Image
+                  src={entry.thumbnail}
+                  alt=""
+                  width={48}
+                  height={36}
+                  unoptimized
+                  className="h-9 w-12 rounded object-cover"
+                />
+              ) : (
+                <span className="h-9 w-12 rounded bg-muted" />
+              )}
+              <span className="flex-1">
+                <span className="block font-medium">{entry.name}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {entry.tags.join(", ")}
+                </span>
+              </span>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {formatDuration(entry.duration)}
+              </span>
+            </button>
+          </li>
+        ))}
+        {results.length === 0 && (
+          <li className="p-2 text-muted-foreground">
+            {entries.length === 0 ? "The library is empty." : "No matches."}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+import { useEffect, useState } from "react";
+import { VRMHumanBoneName } from "@pixiv/three-vrm";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { AvatarStage, AvatarStageEventMap } from "@/lib/avatar/avatar-stage";
+import {
+  BoneMapProfile,
+  createBoneResolver,
+  getBoneMapProfiles,
+  saveCustomBoneMapProfile,
+} from "@/lib/avatar/bone-maps";
+
+type BoneMapPanelProps = {
+  stage: AvatarStage | null;
+  onError: (message: string) => void;
+};
+
+// Source node name -> humanoid bone, "" when unmapped
+type Mapping = Record<string, VRMHumanBoneName | "">;
+
+const HUMAN_BONE_NAMES = Object.values(VRMHumanBoneName);
+
+const buildMapping = (
+  nodeNames: string[],
+  profile: BoneMapProfile
+): Mapping => {
+  const resolve = createBoneResolver(profile);
+  return Object.fromEntries(
+    nodeNames.map((nodeName) => [nodeName, resolve(nodeName) ?? ""])
+  );
+};
+
+const toProfile = (
+  id: string,
+  name: string,
+  mapping: Mapping
+): BoneMapProfile => {
+  const bones: Record<string, VRMHumanBoneName> = {};
+  Object.entries(mapping).forEach(([nodeName, boneName]) => {
+    if (boneName) bones[nodeName] = boneName;
+  });
+  return { id, name, bones };
+};
+
+/**
+ * Lists each source track of the playing clip next to the humanoid bone it
+ * drives, and lets the user correct the mapping and save it as a profile.
+ */
+export function BoneMapPanel({ stage, onError }: BoneMapPanelProps) {
+  const [profiles, setProfiles] = useState<BoneMapProfile[]>([]);
+  const [nodeNames, setNodeNames] = useState<string[]>([]);
+  const [baseProfile, setBaseProfile] = useState<BoneMapProfile | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [profileName, setProfileName] = useState<string>("");
+  const [hasAnimation, setHasAnimation] = useState<boolean>(false);
+
+  useEffect(() => {
+    setProfiles(getBoneMapProfiles());
+  }, []);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const handleAnimationLoad = ({
+      nodeNames,
+      profile,
+    }: AvatarStageEventMap["animationload"]): void => {
+      setHasAnimation(true);
+      setNodeNames(nodeNames);
+      setBaseProfile(profile);
+      setMapping(profile ? buildMapping(nodeNames, profile) : {});
+    };
+    stage.addEventListener("animationload", handleAnimationLoad);
+
+    return () => {
+      stage.removeEventListener("animationload", handleAnimationLoad);
+    };
+  }, [stage]);
+
+  const handleSelectProfile = (id: string): void => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setBaseProfile(profile);
+    setMapping(buildMapping(nodeNames, profile));
+  };
+
+  const handleApply = (): void => {
+    if (!stage || !baseProfile) return;
+    try {
+      stage.remapAnimation(
+        toProfile(baseProfile.id, `${baseProfile.name} (edited)`, mapping)
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = (): void => {
+    const name = profileName.trim();
+    if (!name) return;
+
+    const id = `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+    const profile = toProfile(id, name, mapping);
+    try {
+      saveCustomBoneMapProfile(profile);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setProfiles(getBoneMapProfiles());
+    setBaseProfile(profile);
+    setProfileName("");
+
+    try {
+      stage?.remapAnimation(profile);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (nodeNames.length === 0 || !baseProfile) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {hasAnimation
+          ? "This clip already drives humanoid bones; no mapping needed."
+          : "Play an animation to edit its bone mapping."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex space-x-2">
+        <NativeSelect
+          value={baseProfile?.id ?? ""}
+          onChange={(e) => handleSelectProfile(e.target.value)}
+          className="flex-1"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.custom ? `${profile.name} (saved)` : profile.name}
+            </option>
+          ))}
+        </NativeSelect>
+        <Button onClick={handleApply}>Apply</Button>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto rounded-md border">
+        {nodeNames.map((nodeName) => (
+          <div
+            key={nodeName}
+            className="flex items-center gap-2 border-b px-2 py-1 last:border-b-0"
+          >
+            <span className="flex-1 truncate font-mono text-xs">
+              {nodeName}
+            </span>
+            <NativeSelect
+              value={mapping[nodeName] ?? ""}
+              onChange={(e) =>
+                setMapping((current) => ({
+                  ...current,
+                  [nodeName]: e.target.value as VRMHumanBoneName | "",
+                }))
+              }
+              className="h-7 w-44 text-xs md:text-xs"
+            >
+              <option value="">(unmapped)</option>
+              {HUMAN_BONE_NAMES.map((boneName) => (
+                <option key={boneName} value={boneName}>
+                  {boneName}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Profile name"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          className="flex-1"
+        />
+        <Button
+          variant="outline"
+          onClick={handleSave}
+          disabled={!profileName.trim()}
+        >
+          Save Profile
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+import { useEffect, useState } from "react";
+import { VRMHumanBoneName } from "@pixiv/three-vrm";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { isHumanBoneName } from "@/lib/avatar/bone-maps";
+import { CameraDirectorEventMap } from "@/lib/avatar/camera-director";
+
+type CameraPanelProps = {
+  stage: AvatarStage | null;
+  onError: (message: string) => void;
+};
+
+// Bones worth keeping in frame during an exercise
+const FOLLOW_BONES: { bone: VRMHumanBoneName; label: string }[] = [
+  { bone: "hips", label: "Hips" },
+  { bone: "head", label: "Head" },
+  { bone: "leftHand", label: "Left hand" },
+  { bone: "rightHand", label: "Right hand" },
+  { bone: "leftLowerArm", label: "Left elbow" },
+  { bone: "rightLowerArm", label: "Right elbow" },
+  { bone: "leftLowerLeg", label: "Left knee" },
+  { bone: "rightLowerLeg", label: "Right knee" },
+  { bone: "leftFoot", label: "Left ankle" },
+  { bone: "rightFoot", label: "Right ankle" },
+];
+
+// "leftKnee" -> "Left knee"
+const formatPresetName = (name: string): string => {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** Switches between camera presets and picks a bone to keep centred. */
+export function CameraPanel({ stage, onError }: CameraPanelProps) {
+  const [presetNames, setPresetNames] = useState<string[]>([]);
+  const [preset, setPreset] = useState<string | null>(null);
+  const [followBone, setFollowBone] = useState<VRMHumanBoneName | null>(null);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const { cameraDirector } = stage;
+    const handlePresetChange = ({
+      preset,
+    }: CameraDirectorEventMap["presetchange"]): void => setPreset(preset);
+    const handleFollowChange = ({
+      bone,
+    }: CameraDirectorEventMap["followchange"]): void => setFollowBone(bone);
+    cameraDirector.addEventListener("presetchange", handlePresetChange);
+    cameraDirector.addEventListener("followchange", handleFollowChange);
+    setPresetNames(cameraDirector.getPresetNames());
+    setPreset(cameraDirector.preset);
+    setFollowBone(cameraDirector.followedBone);
+
+    return () => {
+      cameraDirector.removeEventListener("presetchange", handlePresetChange);
+      cameraDirector.removeEventListener("followchange", handleFollowChange);
+    };
+  }, [stage]);
+
+  const handlePreset = (name: string): void => {
+    try {
+      stage?.cameraDirector.moveTo(name);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap gap-2">
+        {presetNames.map((name) => (
+          <Button
+            key={name}
+            variant={name === preset ? "default" : "outline"}
+            size="sm"
+            onClick={() => handlePreset(name)}
+          >
+            {formatPresetName(name)}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center space-x-2">
+        <span className="text-muted-foreground">Follow</span>
+        <NativeSelect
+          value={followBone ?? ""}
+          onChange={(e) =>
+            stage?.cameraDirector.follow(
+              isHumanBoneName(e.target.value) ? e.target.value : null
+            )
+          }
+          disabled={!stage}
+          className="h-8 flex-1"
+        >
+          <option value="">Nothing</option>
+          {FOLLOW_BONES.map(({ bone, label }) => (
+            <option key={bone} value={bone}>
+              {label}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChartSeries, LineChart } from "@/components/avatar/line-chart";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { isAbortError } from "@/lib/avatar/errors";
+import { downloadFile, downloadSvg, toCsv } from "@/lib/avatar/export";
+import { compareMotions, MotionComparison } from "@/lib/avatar/motion-compare";
+
+type ComparePanelProps = {
+  stage: AvatarStage | null;
+  onError: (message: string) => void;
+};
+
+// Worst segments drawn alongside the mean
+const CHART_SEGMENTS = 3;
+const SEGMENT_COLORS = ["#ef4444", "#f59e0b", "#3b82f6"];
+
+const formatSeconds = (seconds: number): string => `${seconds.toFixed(2)}s`;
+const formatDegrees = (degrees: number): string => `${degrees.toFixed(1)}°`;
+
+/**
+ * Scores a patient's recorded attempt against the therapist's reference
+ * clip, listing the body segments and moments that differ most.
+ */
+export function ComparePanel({ stage, onError }: ComparePanelProps) {
+  const [referenceUrl, setReferenceUrl] = useState<string>("");
+  const [patientUrl, setPatientUrl] = useState<string>("");
+  const [comparison, setComparison] = useState<MotionComparison | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const chartRef = useRef<SVGSVGElement>(null);
+
+  const handleCompare = async (): Promise<void> => {
+    if (!stage?.vrm || !referenceUrl || !patientUrl) return;
+
+    setIsComparing(true);
+    try {
+      const [reference, patient] = await Promise.all([
+        stage.prepareAnimation(referenceUrl),
+        stage.prepareAnimation(patientUrl),
+      ]);
+      // The VRM may have changed while the clips loaded
+      if (!stage.vrm) throw new Error("No VRM loaded");
+      setComparison(compareMotions(reference, patient, stage.vrm));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handlePlay = async (url: string): Promise<void> => {
+    try {
+      await stage?.playAnimation(url);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExportCsv = (): void => {
+    if (!comparison) return;
+    const segments = comparison.segments.map(({ segment }) => segment);
+    const rows = [
+      [
+        "reference_time",
+        "patient_time",
+        "mean_deviation",
+        ...segments.map(({ id }) => id),
+      ],
+      ...comparison.frames.map((frame) => [
+        frame.referenceTime.toFixed(3),
+        frame.patientTime.toFixed(3),
+        frame.meanDeviation.toFixed(2),
+        ...segments.map(({ id }) => frame.deviations[id].toFixed(2)),
+      ]),
+    ];
+    downloadFile("motion-comparison.csv", toCsv(rows), "text/csv");
+  };
+
+  const handleExportChart = (): void => {
+    if (chartRef.current) {
+      downloadSvg("motion-comparison.svg", chartRef.current);
+    }
+  };
+
+  const chartSeries: ChartSeries[] = comparison
+    ? [
+        {
+          id: "mean",
+          label: "Mean",
+          color: "#111827",
+          values: comparison.frames.map((frame) => frame.meanDeviation),
+        },
+        ...comparison.segments
+          .slice(0, CHART_SEGMENTS)
+          .map(({ segment }, index) => ({
+            id: segment.id,
+            label: segment.label,
+            color: SEGMENT_COLORS[index],
+            values: comparison.frames.map(
+              (frame) => frame.deviations[segment.id]
+            ),
+          })),
+      ]
+    : [];
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Reference clip URL"
+          value={referenceUrl}
+          onChange={(e) => setReferenceUrl(e.target.value)}
+          className="flex-1"
+        />
+        <Button
+          variant="outline"
+          onClick={() => handlePlay(referenceUrl)}
+          disabled={!stage || !referenceUrl}
+        >
+          Play
+        </Button>
+      </div>
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Patient clip URL (pose .json/.csv or animation)"
+          value={patientUrl}
+          onChange={(e) => setPatientUrl(e.target.value)}
+          className="flex-1"
+        />
+        <Button
+          variant="outline"
+          onClick={() => handlePlay(patientUrl)}
+          disabled={!stage || !patientUrl}
+        >
+          Play
+        </Button>
+      </div>
+      <Button
+        onClick={handleCompare}
+        disabled={!stage || isComparing || !referenceUrl || !patientUrl}
+      >
+        {isComparing ? "Comparing..." : "Compare"}
+      </Button>
+
+      {comparison && (
+        <>
+          <div className="flex items-baseline space-x-2">
+            <span className="text-3xl font-semibold tabular-nums">
+              {comparison.score}
+            </span>
+            <span className="text-muted-foreground">
+              / 100 similarity, mean deviation{" "}
+              {formatDegrees(comparison.meanDeviation)}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-xs text-muted-foreground">Worst segments</p>
+              <ul>
+                {comparison.segments
+                  .slice(0, CHART_SEGMENTS)
+                  .map(({ segment, meanDeviation, maxDeviation }) => (
+                    <li key={segment.id} className="tabular-nums">
+                      {segment.label}: {formatDegrees(meanDeviation)} (max{" "}
+                      {formatDegrees(maxDeviation)})
+                    </li>
+                  ))}
+              </ul>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">
+                Worst moments (reference / patient)
+              </p>
+              <ul>
+                {comparison.worstMoments.map((moment) => (
+                  <li
+                    key={`${moment.referenceTime}-${moment.patientTime}`}
+                    className="tabular-nums"
+                  >
+                    {formatSeconds(moment.referenceTime)} /{" "}
+                    {formatSeconds(moment.patientTime)}:{" "}
+                    {formatDegrees(moment.meanDeviation)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <LineChart
+            ref={chartRef}
+            x={comparison.frames.map((frame) => frame.referenceTime)}
+            series={chartSeries}
+            xLabel="reference time (s)"
+            yLabel="deviation (°)"
+            markers={comparison.worstMoments.map(
+              (moment) => moment.referenceTime
+            )}
+          />
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={handleExportCsv}>
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportChart}>
+              Export Chart
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
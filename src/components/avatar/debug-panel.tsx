@@ -0,0 +1,88 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AvatarStage, StageStats } from "@/lib/avatar/avatar-stage";
+
+type DebugPanelProps = {
+  stage: AvatarStage | null;
+};
+
+const REFRESH_INTERVAL_MS = 1000;
+
+// Chrome only; other browsers don't expose the heap size
+type PerformanceWithMemory = Performance & {
+  memory?: { usedJSHeapSize: number };
+};
+
+const readHeapMegabytes = (): number | null => {
+  const { memory } = performance as PerformanceWithMemory;
+  return memory ? memory.usedJSHeapSize / 1024 / 1024 : null;
+};
+
+const STAT_LABELS: { key: keyof StageStats; label: string }[] = [
+  { key: "geometries", label: "Geometries" },
+  { key: "textures", label: "Textures" },
+  { key: "programs", label: "Shader programs" },
+  { key: "drawCalls", label: "Draw calls" },
+  { key: "triangles", label: "Triangles" },
+  { key: "sceneObjects", label: "Scene objects" },
+  { key: "cachedModels", label: "Cached models" },
+  { key: "cachedAnimations", label: "Cached animations" },
+];
+
+/**
+ * Live GPU memory and object counts. Counts that keep growing while
+ * switching models and clips back and forth point to a leak.
+ */
+export function DebugPanel({ stage }: DebugPanelProps) {
+  const [stats, setStats] = useState<StageStats | null>(null);
+  const [heap, setHeap] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const refresh = (): void => {
+      setStats(stage.getStats());
+      setHeap(readHeapMegabytes());
+    };
+    refresh();
+    const interval = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      setStats(null);
+    };
+  }, [stage]);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <dl className="grid grid-cols-4 gap-x-4 gap-y-1">
+        {STAT_LABELS.map(({ key, label }) => (
+          <div key={key} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="tabular-nums">
+              {stats ? stats[key].toLocaleString() : "-"}
+            </dd>
+          </div>
+        ))}
+        <dt className="text-muted-foreground">JS heap</dt>
+        <dd className="tabular-nums">
+          {heap === null ? "n/a" : `${heap.toFixed(1)} MB`}
+        </dd>
+      </dl>
+      <div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            stage?.clearCaches();
+            if (stage) setStats(stage.getStats());
+          }}
+          disabled={!stage}
+        >
+          Clear Caches
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { AvatarStage, AvatarStageEventMap } from "@/lib/avatar/avatar-stage";
+import { EXPRESSION_EASINGS, ExpressionEasing } from "@/lib/avatar/expressions";
+
+type ExpressionPanelProps = {
+  stage: AvatarStage | null;
+};
+
+const EASING_NAMES = Object.keys(EXPRESSION_EASINGS) as ExpressionEasing[];
+
+/**
+ * Quick expression presets plus a weight slider per expression, so several
+ * can be layered. Lists the model's custom expressions too.
+ */
+export function ExpressionPanel({ stage }: ExpressionPanelProps) {
+  const [names, setNames] = useState<string[]>([]);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [activeExpression, setActiveExpression] = useState<string>("");
+  const [duration, setDuration] = useState<string>("0.3");
+  const [easing, setEasing] = useState<ExpressionEasing>("easeInOut");
+
+  // Mirror the stage's expression layers
+  useEffect(() => {
+    if (!stage) return;
+
+    const handleLoad = (): void => setNames(stage.getExpressionNames());
+    const handleWeightsChange = ({
+      weights,
+    }: AvatarStageEventMap["expressionweightschange"]): void =>
+      setWeights(weights);
+    const handleExpressionChange = ({
+      expression,
+    }: AvatarStageEventMap["expressionchange"]): void =>
+      setActiveExpression(expression);
+    stage.addEventListener("load", handleLoad);
+    stage.addEventListener("expressionweightschange", handleWeightsChange);
+    stage.addEventListener("expressionchange", handleExpressionChange);
+    setNames(stage.getExpressionNames());
+    setWeights(stage.expressionWeights);
+    setActiveExpression(stage.expression);
+
+    return () => {
+      stage.removeEventListener("load", handleLoad);
+      stage.removeEventListener("expressionweightschange", handleWeightsChange);
+      stage.removeEventListener("expressionchange", handleExpressionChange);
+    };
+  }, [stage]);
+
+  const transition = { duration: Math.max(0, Number(duration) || 0), easing };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-3 gap-2">
+        {names.map((expr) => (
+          <Button
+            key={expr}
+            variant={activeExpression === expr ? "default" : "outline"}
+            size="sm"
+            onClick={() => stage?.setExpression(expr, undefined, transition)}
+            className="text-xs"
+          >
+            {expr}
+          </Button>
+        ))}
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => stage?.resetExpressions(transition)}
+          className="col-span-3 mt-2"
+        >
+          Reset Expressions
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-2 text-sm">
+        <span className="text-muted-foreground">Blend</span>
+        <Input
+          type="number"
+          min={0}
+          step={0.1}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          className="h-8 w-20"
+          aria-label="Blend seconds"
+        />
+        <span className="text-muted-foreground">s</span>
+        <NativeSelect
+          value={easing}
+          onChange={(e) => setEasing(e.target.value as ExpressionEasing)}
+          className="h-8 flex-1"
+          aria-label="Easing"
+        >
+          {EASING_NAMES.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      {names.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-md border px-2 py-1">
+          {names.map((expr) => (
+            <label
+              key={expr}
+              className="flex items-center gap-2 py-0.5 text-xs"
+            >
+              <span className="w-24 truncate" title={expr}>
+                {expr}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={weights[expr] ?? 0}
+                onChange={(e) =>
+                  stage?.setExpressionWeight(expr, Number(e.target.value))
+                }
+                className="flex-1 accent-primary"
+              />
+              <span className="w-8 text-right tabular-nums">
+                {(weights[expr] ?? 0).toFixed(2)}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
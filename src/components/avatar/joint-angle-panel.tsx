@@ -0,0 +1,172 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import { LineChart } from "@/components/avatar/line-chart";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { downloadFile } from "@/lib/avatar/export";
+import {
+  JOINT_ANGLES,
+  JointAngleId,
+  JointAngleRange,
+  JointAngleSample,
+  JointAngleTracker,
+} from "@/lib/avatar/joint-angles";
+
+type JointAnglePanelProps = {
+  stage: AvatarStage | null;
+  // Whether the panel is on screen; it keeps recording but only redraws then
+  active: boolean;
+};
+
+type TrackerSnapshot = {
+  samples: readonly JointAngleSample[];
+  ranges: Map<JointAngleId, JointAngleRange>;
+};
+
+const formatDegrees = (degrees: number | undefined): string =>
+  degrees === undefined ? "–" : `${degrees.toFixed(0)}°`;
+
+const fileNameFor = (clipName: string | null): string => {
+  const base = clipName
+    ?.split("/")
+    .pop()
+    ?.replace(/\.[^.]+$/, "");
+  return `joint-angles${base ? `-${base}` : ""}.csv`;
+};
+
+/**
+ * Live joint-angle readout for the playing clip: current value and range
+ * per angle, a chart of one angle over time, and a CSV export.
+ */
+export function JointAnglePanel({ stage, active }: JointAnglePanelProps) {
+  const [tracker, setTracker] = useState<JointAngleTracker | null>(null);
+  const [snapshot, setSnapshot] = useState<TrackerSnapshot | null>(null);
+  const [chartAngle, setChartAngle] =
+    useState<JointAngleId>("leftElbowFlexion");
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const angleTracker = new JointAngleTracker(stage);
+    setTracker(angleTracker);
+
+    return () => {
+      angleTracker.dispose();
+      setTracker(null);
+      setSnapshot(null);
+    };
+  }, [stage]);
+
+  // Copying the samples each time is only worth it while they're shown
+  useEffect(() => {
+    if (!tracker || !active) return;
+
+    const handleChange = (): void =>
+      setSnapshot({
+        samples: [...tracker.samples],
+        ranges: new Map(tracker.ranges),
+      });
+    handleChange();
+    tracker.addEventListener("sample", handleChange);
+    tracker.addEventListener("reset", handleChange);
+
+    return () => {
+      tracker.removeEventListener("sample", handleChange);
+      tracker.removeEventListener("reset", handleChange);
+    };
+  }, [tracker, active]);
+
+  const handleExport = (): void => {
+    if (!tracker) return;
+    downloadFile(fileNameFor(tracker.clipName), tracker.toCsv(), "text/csv");
+  };
+
+  const samples = snapshot?.samples ?? [];
+  const angles = JOINT_ANGLES.filter(({ id }) => snapshot?.ranges.has(id));
+  const chartLabel =
+    JOINT_ANGLES.find(({ id }) => id === chartAngle)?.label ?? chartAngle;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <table className="w-full tabular-nums">
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal">Angle</th>
+            <th className="text-right font-normal">Now</th>
+            <th className="text-right font-normal">Min</th>
+            <th className="text-right font-normal">Max</th>
+          </tr>
+        </thead>
+        <tbody>
+          {angles.map(({ id, label }) => {
+            const range = snapshot?.ranges.get(id);
+            return (
+              <tr
+                key={id}
+                onClick={() => setChartAngle(id)}
+                className={`cursor-pointer ${id === chartAngle ? "font-medium" : ""}`}
+              >
+                <td>{label}</td>
+                <td className="text-right">{formatDegrees(range?.current)}</td>
+                <td className="text-right">{formatDegrees(range?.min)}</td>
+                <td className="text-right">{formatDegrees(range?.max)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {angles.length === 0 && (
+        <p className="text-muted-foreground">
+          Play an animation to measure joint angles.
+        </p>
+      )}
+
+      <NativeSelect
+        value={chartAngle}
+        onChange={(e) => setChartAngle(e.target.value as JointAngleId)}
+        className="h-8"
+        aria-label="Charted angle"
+      >
+        {JOINT_ANGLES.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </NativeSelect>
+      <LineChart
+        x={samples.map(({ time }) => time)}
+        series={[
+          {
+            id: chartAngle,
+            label: chartLabel,
+            color: "#3b82f6",
+            values: samples.map(({ angles }) => angles[chartAngle] ?? NaN),
+          },
+        ]}
+        xLabel="time (s)"
+        yLabel={`${chartLabel} (°)`}
+        height={120}
+      />
+
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => tracker?.reset()}
+          disabled={!tracker}
+        >
+          Reset
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={samples.length === 0}
+        >
+          Export CSV
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { AssetLibrary, generateAssetDetails } from "@/lib/avatar/asset-library";
+import {
+  AssetStoreUsage,
+  clearAssetStore,
+  getAssetStoreUsage,
+} from "@/lib/avatar/asset-store";
+import { downloadFile } from "@/lib/avatar/export";
+
+type LibraryPanelProps = {
+  stage: AvatarStage | null;
+  library: AssetLibrary | null;
+  onReload: () => Promise<void>;
+  // Reloads the model shown before thumbnails were generated
+  onRestoreModel: () => Promise<void>;
+  onError: (message: string) => void;
+};
+
+const formatMegabytes = (bytes: number): string =>
+  `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Maintains the asset library: generates missing thumbnails and durations
+ * on this device, exports the manifest with them filled in and manages the
+ * offline copies of loaded files.
+ */
+export function LibraryPanel({
+  stage,
+  library,
+  onReload,
+  onRestoreModel,
+  onError,
+}: LibraryPanelProps) {
+  const [progress, setProgress] = useState<string>("");
+  const [usage, setUsage] = useState<AssetStoreUsage | null>(null);
+
+  const refreshUsage = useCallback(async (): Promise<void> => {
+    try {
+      setUsage(await getAssetStoreUsage());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+      setUsage(null);
+    }
+  }, [onError]);
+
+  // Files are stored as they load, so recount after each model or clip
+  useEffect(() => {
+    refreshUsage();
+    if (!stage) return;
+    const handleLoad = (): void => {
+      refreshUsage();
+    };
+    stage.addEventListener("load", handleLoad);
+    stage.addEventListener("animationload", handleLoad);
+    return () => {
+      stage.removeEventListener("load", handleLoad);
+      stage.removeEventListener("animationload", handleLoad);
+    };
+  }, [stage, refreshUsage]);
+
+  const entries = library ? [...library.models, ...library.animations] : [];
+  const missing = entries.filter(
+    (entry) =>
+      !entry.thumbnail || (entry.kind === "animation" && !entry.duration)
+  );
+
+  const handleGenerate = async (): Promise<void> => {
+    if (!stage || missing.length === 0) return;
+    try {
+      await generateAssetDetails(stage, missing, (done, total) =>
+        setProgress(`Generating ${done} of ${total}...`)
+      );
+      if (missing.some(({ kind }) => kind === "model")) await onRestoreModel();
+      await onReload();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress("");
+    }
+  };
+
+  const handleClearStore = async (): Promise<void> => {
+    try {
+      await clearAssetStore();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshUsage();
+  };
+
+  const handleExport = (): void => {
+    if (!library) return;
+    downloadFile(
+      "library.json",
+      JSON.stringify(library, null, 2) + "\n",
+      "application/json"
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <p className="text-muted-foreground">
+        {library
+          ? `${library.models.length} models, ${library.animations.length} animations; ${missing.length} without a thumbnail or duration.`
+          : "Loading the library..."}
+      </p>
+      <div className="flex space-x-2">
+        <Button
+          onClick={handleGenerate}
+          disabled={!stage?.vrm || !!progress || missing.length === 0}
+        >
+          {progress || "Generate Thumbnails"}
+        </Button>
+        <Button variant="outline" onClick={handleExport} disabled={!library}>
+          Export Manifest
+        </Button>
+        <Button variant="outline" onClick={() => onReload()}>
+          Reload
+        </Button>
+      </div>
+      <div className="flex items-center space-x-2">
+        <span className="flex-1 text-muted-foreground">
+          {usage
+            ? `Offline copies: ${usage.files} files${
+                usage.bytes === null
+                  ? ""
+                  : `, ${formatMegabytes(usage.bytes)} stored in total`
+              }`
+            : "Offline copies unavailable"}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClearStore}
+          disabled={!usage?.files}
+        >
+          Clear Offline Copies
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Generated thumbnails and durations are kept in this browser only. To
+        share them, export the manifest and save it over public/library.json, or
+        add images named after each file to public/thumbnails. Run{" "}
+        <code>pnpm library</code> to rescan public/ for new files.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { Ref } from "react";
+
+export type ChartSeries = {
+  id: string;
+  label: string;
+  color: string;
+  // One value per x position; NaN leaves a gap
+  values: number[];
+};
+
+type LineChartProps = {
+  x: number[];
+  series: ChartSeries[];
+  xLabel?: string;
+  yLabel?: string;
+  // x positions drawn as vertical guides
+  markers?: number[];
+  height?: number;
+  ref?: Ref<SVGSVGElement>;
+};
+
+const WIDTH = 480;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 36 };
+
+const formatTick = (value: number): string =>
+  Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(1);
+
+/**
+ * Small dependency-free SVG line chart. Colours and fonts are inlined so
+ * the element can be saved as a standalone .svg file.
+ */
+export function LineChart({
+  x,
+  series,
+  xLabel,
+  yLabel,
+  markers = [],
+  height = 160,
+  ref,
+}: LineChartProps) {
+  const finite = series.flatMap(({ values }) => values.filter(Number.isFinite));
+  const xMin = x[0] ?? 0;
+  const xMax = Math.max(x[x.length - 1] ?? 1, xMin + 1e-6);
+  const yMin = Math.min(0, ...finite);
+  const yMax = Math.max(yMin + 1e-6, ...finite);
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const toX = (value: number) =>
+    MARGIN.left + ((value - xMin) / (xMax - xMin)) * plotWidth;
+  const toY = (value: number) =>
+    MARGIN.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const pathFor = (values: number[]): string => {
+    let path = "";
+    let drawing = false;
+    values.forEach((value, index) => {
+      if (!Number.isFinite(value) || index >= x.length) {
+        drawing = false;
+        return;
+      }
+      path += `${drawing ? "L" : "M"}${toX(x[index]).toFixed(1)},${toY(value).toFixed(1)}`;
+      drawing = true;
+    });
+    return path;
+  };
+
+  const yTicks = [yMin, (yMin + yMax) / 2, yMax];
+  const xTicks = [xMin, (xMin + xMax) / 2, xMax];
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        fontFamily="sans-serif"
+        fontSize={10}
+      >
+        <rect width={WIDTH} height={height} fill="#ffffff" />
+        {yTicks.map((tick) => (
+          <g key={`y${tick}`}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={toY(tick)}
+              y2={toY(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={MARGIN.left - 4}
+              y={toY(tick) + 3}
+              textAnchor="end"
+              fill="#6b7280"
+            >
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((tick) => (
+          <text
+            key={`x${tick}`}
+            x={toX(tick)}
+            y={height - 10}
+            textAnchor="middle"
+            fill="#6b7280"
+          >
+            {formatTick(tick)}
+          </text>
+        ))}
+        {xLabel && (
+          <text
+            x={WIDTH - MARGIN.right}
+            y={height - 1}
+            textAnchor="end"
+            fill="#6b7280"
+          >
+            {xLabel}
+          </text>
+        )}
+        {yLabel && (
+          <text x={2} y={MARGIN.top + 2} fill="#6b7280">
+            {yLabel}
+          </text>
+        )}
+        {markers.map((marker, index) => (
+          <line
+            key={`m${index}`}
+            x1={toX(marker)}
+            x2={toX(marker)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + plotHeight}
+            stroke="#f97316"
+            strokeDasharray="3 3"
+          />
+        ))}
+        {series.map(({ id, color, values }) => (
+          <path
+            key={id}
+            d={pathFor(values)}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+          {series.map(({ id, label, color }) => (
+            <span key={id} className="flex items-center gap-1">
+              <span
+                className="inline-block h-2 w-2 rounded-full"
+                style={{ backgroundColor: color }}
+              />
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
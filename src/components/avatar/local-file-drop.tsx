@@ -0,0 +1,97 @@
+"use client";
+import { DragEvent, ReactNode, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { LOCAL_FILE_ACCEPT } from "@/lib/avatar/local-files";
+import { cn } from "@/lib/utils";
+
+type LocalFileDropProps = {
+  onFiles: (files: File[]) => void;
+  className?: string;
+  children: ReactNode;
+};
+
+/** Accepts VRM and animation files dropped anywhere over its children. */
+export function LocalFileDrop({
+  onFiles,
+  className,
+  children,
+}: LocalFileDropProps) {
+  // Counts nested dragenter/dragleave pairs so children don't flicker it
+  const dragDepth = useRef(0);
+  const [dragging, setDragging] = useState<boolean>(false);
+
+  const hasFiles = (e: DragEvent): boolean =>
+    e.dataTransfer.types.includes("Files");
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        dragDepth.current += 1;
+        setDragging(true);
+      }}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+      }}
+      onDragLeave={() => {
+        dragDepth.current = Math.max(0, dragDepth.current - 1);
+        if (dragDepth.current === 0) setDragging(false);
+      }}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        dragDepth.current = 0;
+        setDragging(false);
+        onFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {children}
+      {dragging && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center border-4 border-dashed border-primary bg-white/70 text-lg font-medium">
+          Drop VRM models or animation files to open them
+        </div>
+      )}
+    </div>
+  );
+}
+
+type OpenFilesButtonProps = {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+};
+
+/** Opens the system file picker for VRM and animation files. */
+export function OpenFilesButton({ onFiles, disabled }: OpenFilesButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={LOCAL_FILE_ACCEPT}
+        multiple
+        hidden
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          // Allow picking the same file again
+          e.target.value = "";
+        }}
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        title="Open local files (or drop them on the viewer)"
+      >
+        <Upload />
+        Open
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Switch } from "@/components/ui/switch";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import {
+  HeadFollowOptions,
+  LookAtEventMap,
+  LookAtTarget,
+  parseLookAtTarget,
+} from "@/lib/avatar/look-at";
+
+type LookAtPanelProps = {
+  stage: AvatarStage | null;
+};
+
+type LimitField = "weight" | "maxYaw" | "maxPitch";
+
+const LIMIT_FIELDS: { field: LimitField; label: string; step: number }[] = [
+  { field: "weight", label: "Head share", step: 0.1 },
+  { field: "maxYaw", label: "Max yaw °", step: 5 },
+  { field: "maxPitch", label: "Max pitch °", step: 5 },
+];
+
+const describeTarget = (target: LookAtTarget | null): string => {
+  if (!target) return "none";
+  if (target.kind === "named") return target.name;
+  return target.kind;
+};
+
+/** Chooses what the avatar looks at and how far the head follows. */
+export function LookAtPanel({ stage }: LookAtPanelProps) {
+  const [target, setTarget] = useState<string>("none");
+  const [targetNames, setTargetNames] = useState<string[]>([]);
+  const [headFollow, setHeadFollow] = useState<HeadFollowOptions | null>(null);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const { lookAt } = stage;
+    const handleTargetChange = ({
+      target,
+    }: LookAtEventMap["targetchange"]): void =>
+      setTarget(describeTarget(target));
+    lookAt.addEventListener("targetchange", handleTargetChange);
+    setTarget(describeTarget(lookAt.target));
+    setTargetNames(lookAt.getNamedTargetNames());
+    setHeadFollow(lookAt.headFollow);
+
+    return () => {
+      lookAt.removeEventListener("targetchange", handleTargetChange);
+    };
+  }, [stage]);
+
+  const updateHeadFollow = (options: Partial<HeadFollowOptions>): void => {
+    if (!stage) return;
+    stage.lookAt.setHeadFollow(options);
+    setHeadFollow(stage.lookAt.headFollow);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center space-x-2">
+        <span className="text-muted-foreground">Look at</span>
+        <NativeSelect
+          value={target}
+          onChange={(e) =>
+            stage?.lookAt.setTarget(parseLookAtTarget(e.target.value))
+          }
+          disabled={!stage}
+          className="h-8 flex-1"
+        >
+          <option value="none">Straight ahead</option>
+          <option value="camera">Camera</option>
+          {target === "point" && (
+            <option value="point" disabled>
+              Scene point
+            </option>
+          )}
+          {targetNames.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      {headFollow && (
+        <>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="head-follow"
+              checked={headFollow.enabled}
+              onCheckedChange={(enabled) => updateHeadFollow({ enabled })}
+            />
+            <Label htmlFor="head-follow">Turn head and neck</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            {LIMIT_FIELDS.map(({ field, label, step }) => (
+              <label key={field} className="flex flex-1 flex-col gap-1">
+                <span className="text-xs text-muted-foreground">{label}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={headFollow[field]}
+                  onChange={(e) =>
+                    updateHeadFollow({
+                      [field]: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  disabled={!headFollow.enabled}
+                  className="h-8"
+                />
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import {
+  AnimationPlaylist,
+  createPlaylistItem,
+  PlaylistEventMap,
+  PlaylistItem,
+} from "@/lib/avatar/playlist";
+
+type PlaylistPanelProps = {
+  stage: AvatarStage | null;
+  onError: (message: string) => void;
+};
+
+type NumericField = "loops" | "crossfade" | "hold";
+
+/** Builds, reorders and plays a queue of animations. */
+export function PlaylistPanel({ stage, onError }: PlaylistPanelProps) {
+  const [playlist, setPlaylist] = useState<AnimationPlaylist | null>(null);
+  const [items, setItems] = useState<PlaylistItem[]>([]);
+  const [newUrl, setNewUrl] = useState<string>("");
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const animationPlaylist = new AnimationPlaylist(stage);
+    const handleItemStart = ({ index }: PlaylistEventMap["itemstart"]): void =>
+      setActiveIndex(index);
+    const handleEnd = (): void => setActiveIndex(-1);
+    animationPlaylist.addEventListener("itemstart", handleItemStart);
+    animationPlaylist.addEventListener("end", handleEnd);
+    setPlaylist(animationPlaylist);
+
+    return () => {
+      animationPlaylist.stop();
+      animationPlaylist.removeEventListener("itemstart", handleItemStart);
+      animationPlaylist.removeEventListener("end", handleEnd);
+      setPlaylist(null);
+    };
+  }, [stage]);
+
+  const handleAdd = (): void => {
+    const url = newUrl.trim();
+    if (!url) return;
+    setItems((current) => [...current, createPlaylistItem(url)]);
+    setNewUrl("");
+  };
+
+  const handleMove = (index: number, offset: number): void => {
+    setItems((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemove = (id: string): void => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  };
+
+  const handleChange = (
+    id: string,
+    field: NumericField,
+    value: string
+  ): void => {
+    const number = Math.max(0, Number(value) || 0);
+    setItems((current) =>
+      current.map((item) =>
+        item.id === id ? { ...item, [field]: number } : item
+      )
+    );
+  };
+
+  const handlePlay = async (): Promise<void> => {
+    if (!playlist || items.length === 0) return;
+    try {
+      await playlist.play(items);
+    } catch (err) {
+      setActiveIndex(-1);
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleStop = (): void => {
+    playlist?.stop();
+    stage?.stopAnimation();
+    setActiveIndex(-1);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Animation URL to queue"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          className="flex-1"
+        />
+        <Button variant="outline" onClick={handleAdd} disabled={!newUrl}>
+          Add
+        </Button>
+      </div>
+
+      {items.length > 0 && (
+        <div className="max-h-48 overflow-y-auto rounded-md border">
+          <div className="flex items-center gap-1 border-b px-2 py-1 text-xs text-muted-foreground">
+            <span className="flex-1">Clip</span>
+            <span className="w-14">Loops</span>
+            <span className="w-14">Fade s</span>
+            <span className="w-14">Hold s</span>
+            <span className="w-24" />
+          </div>
+          {items.map((item, index) => (
+            <div
+              key={item.id}
+              className={`flex items-center gap-1 border-b px-2 py-1 last:border-b-0 ${
+                index === activeIndex ? "bg-accent" : ""
+              }`}
+            >
+              <span className="flex-1 truncate text-xs" title={item.url}>
+                {item.url}
+              </span>
+              {(["loops", "crossfade", "hold"] as const).map((field) => (
+                <Input
+                  key={field}
+                  type="number"
+                  min={0}
+                  step={field === "loops" ? 1 : 0.1}
+                  value={item[field]}
+                  onChange={(e) => handleChange(item.id, field, e.target.value)}
+                  className="h-7 w-14 px-1 text-xs md:text-xs"
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUp />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === items.length - 1}
+              >
+                <ArrowDown />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => handleRemove(item.id)}
+              >
+                <X />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          onClick={handlePlay}
+          disabled={!playlist || items.length === 0}
+          className="flex-1"
+        >
+          Play Queue
+        </Button>
+        <Button variant="outline" onClick={handleStop}>
+          Stop
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Loops of 0 repeat forever.
+      </p>
+    </div>
+  );
+}
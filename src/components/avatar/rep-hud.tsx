@@ -0,0 +1,53 @@
+import { RepCounterState } from "@/lib/avatar/rep-counter";
+
+type RepHudProps = {
+  state: RepCounterState | null;
+  // Shown highlighted, e.g. when the target has just been reached
+  notice?: string;
+};
+
+/** On-canvas rep and set counter for the playing clip. */
+export function RepHud({ state, notice }: RepHudProps) {
+  if (!state?.clipName) return null;
+
+  const { reps, set, target, done } = state;
+  const progress = target ? Math.min(1, reps / target.reps) : 0;
+
+  return (
+    <div className="pointer-events-none absolute top-4 right-4 w-40 rounded-xl border bg-white/80 p-3 shadow-sm">
+      <p className="text-xs text-muted-foreground">Reps</p>
+      <p className="text-3xl font-semibold tabular-nums">
+        {reps}
+        {target && (
+          <span className="text-base text-muted-foreground">
+            {" "}
+            / {target.reps}
+          </span>
+        )}
+      </p>
+      {target && (
+        <>
+          <div className="mt-1 h-1.5 rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-primary transition-[width]"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {done
+              ? "Target reached"
+              : `Set ${Math.min(set, target.sets)} of ${target.sets}`}
+          </p>
+        </>
+      )}
+      {notice && (
+        <p
+          role="status"
+          className="mt-2 rounded-md bg-primary px-2 py-1 text-xs font-medium text-primary-foreground"
+        >
+          {notice}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { ExerciseSession } from "@/lib/avatar/session";
+import { SessionRunnerState } from "@/lib/avatar/session-runner";
+
+type SessionOverlayProps = {
+  session: ExerciseSession | null;
+  state: SessionRunnerState | null;
+};
+
+/** On-canvas banner with the current exercise's instructions or rest timer. */
+export function SessionOverlay({ session, state }: SessionOverlayProps) {
+  if (!session || !state || state.status === "idle") return null;
+
+  const { step } = state;
+  let content: React.ReactNode;
+
+  if (state.status === "finished" || !step) {
+    content = <p className="text-lg font-semibold">Session complete</p>;
+  } else if (step.kind === "rest") {
+    content = (
+      <>
+        <p className="text-lg font-semibold">
+          Rest {Math.ceil(state.restRemaining)}s
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Next: {nextStepLabel(session, step.exerciseIndex, step.set)}
+        </p>
+      </>
+    );
+  } else {
+    const { exercise } = step;
+    content = (
+      <>
+        <p className="text-lg font-semibold">{exercise.name}</p>
+        <p className="text-sm text-muted-foreground">
+          Set {step.set} of {exercise.sets} · {exercise.reps} reps
+        </p>
+        {exercise.instructions && (
+          <p className="mt-1 text-sm">{exercise.instructions}</p>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="pointer-events-none absolute top-4 left-0 right-0 mx-auto w-full max-w-lg px-4">
+      <div className="rounded-xl border bg-white/80 p-4 text-center shadow-sm">
+        {content}
+        {state.status === "paused" && (
+          <p className="mt-1 text-xs font-medium uppercase">Paused</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const nextStepLabel = (
+  session: ExerciseSession,
+  exerciseIndex: number,
+  set: number
+): string => {
+  const exercise = session.exercises[exerciseIndex];
+  if (set < exercise.sets) return `${exercise.name}, set ${set + 1}`;
+  return session.exercises[exerciseIndex + 1]?.name ?? "done";
+};
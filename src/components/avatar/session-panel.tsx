@@ -0,0 +1,135 @@
+"use client";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ExerciseSession,
+  parseSession,
+  SessionValidationIssue,
+} from "@/lib/avatar/session";
+import { SessionRunner, SessionRunnerState } from "@/lib/avatar/session-runner";
+
+const EXAMPLE_SESSION_URL = "/sessions/example.json";
+
+type SessionPanelProps = {
+  session: ExerciseSession | null;
+  runner: SessionRunner | null;
+  state: SessionRunnerState | null;
+  onLoadSession: (session: ExerciseSession) => void;
+  // Preset names exercises may move the camera to
+  cameraPresets?: string[];
+};
+
+/** Edits, validates and runs an exercise-session document. */
+export function SessionPanel({
+  session,
+  runner,
+  state,
+  onLoadSession,
+  cameraPresets,
+}: SessionPanelProps) {
+  const [text, setText] = useState<string>("");
+  const [issues, setIssues] = useState<SessionValidationIssue[]>([]);
+
+  const handleLoadExample = async (): Promise<void> => {
+    try {
+      const response = await fetch(EXAMPLE_SESSION_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setText(await response.text());
+      setIssues([]);
+    } catch (err) {
+      setIssues([
+        {
+          path: EXAMPLE_SESSION_URL,
+          message: `Failed to fetch example: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        },
+      ]);
+    }
+  };
+
+  const handleLoadSession = (): void => {
+    const result = parseSession(text, cameraPresets);
+    setIssues(result.errors);
+    if (result.session) onLoadSession(result.session);
+  };
+
+  const status = state?.status ?? "idle";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Textarea
+        placeholder="Paste an exercise session (JSON)"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="max-h-40 font-mono text-xs md:text-xs"
+        aria-invalid={issues.length > 0}
+      />
+      <div className="flex space-x-2">
+        <Button onClick={handleLoadSession} disabled={!text.trim()}>
+          Load Session
+        </Button>
+        <Button variant="outline" onClick={handleLoadExample}>
+          Example
+        </Button>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="max-h-24 overflow-y-auto text-xs text-red-500">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              <span className="font-mono">{issue.path}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {session && runner && (
+        <div className="flex flex-col gap-2 rounded-md border p-2">
+          <p className="text-sm font-medium">
+            {session.title}{" "}
+            <span className="text-xs text-muted-foreground">
+              ({session.exercises.length} exercises, {runner.steps.length}{" "}
+              steps)
+            </span>
+          </p>
+          <div className="grid grid-cols-4 gap-2">
+            {status === "running" ? (
+              <Button size="sm" onClick={() => runner.pause()}>
+                Pause
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => runner.start()}>
+                {status === "paused" ? "Resume" : "Start"}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => runner.skip()}
+              disabled={status === "idle" || status === "finished"}
+            >
+              Skip
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => runner.restart()}
+            >
+              Restart
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => runner.stop()}
+              disabled={status === "idle"}
+            >
+              Stop
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
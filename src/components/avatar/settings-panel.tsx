@@ -0,0 +1,232 @@
+"use client";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { downloadFile } from "@/lib/avatar/export";
+import {
+  getRenderSetting,
+  RENDER_PROFILE_FIELDS,
+  RenderProfileKey,
+  RenderSettingChanges,
+  RenderSettings,
+  toRenderProfileDocument,
+} from "@/lib/avatar/render-profile";
+
+type SettingsPanelProps = {
+  stage: AvatarStage | null;
+  settings: RenderSettings;
+  onChange: (changes: RenderSettingChanges) => void;
+  onReset: () => void;
+};
+
+const COLOR_FIELDS: { key: RenderProfileKey; label: string }[] = [
+  { key: "backgroundColor", label: "Background" },
+  { key: "wallMaterial.color", label: "Walls" },
+  { key: "hemisphereLight.skyColor", label: "Sky light" },
+  { key: "directionalLight.color", label: "Key light" },
+];
+
+const NUMBER_FIELDS: {
+  key: RenderProfileKey;
+  label: string;
+  step: number;
+}[] = [
+  { key: "camera.fov", label: "Field of view °", step: 1 },
+  { key: "hemisphereLight.intensity", label: "Sky light", step: 0.1 },
+  { key: "directionalLight.intensity", label: "Key light", step: 0.1 },
+  { key: "ambientLight.intensity", label: "Ambient", step: 0.1 },
+];
+
+const SWITCH_FIELDS: { key: RenderProfileKey; label: string }[] = [
+  { key: "disableCameraRotation", label: "Fixed camera" },
+  { key: "idleLayer.enabled", label: "Idle motion" },
+];
+
+const roundVector = ({ x, y, z }: { x: number; y: number; z: number }) => ({
+  x: Number(x.toFixed(3)),
+  y: Number(y.toFixed(3)),
+  z: Number(z.toFixed(3)),
+});
+
+type NumberSettingProps = {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+};
+
+// Keeps the typed text until blur or Enter, so partial input like "0." or
+// "1" on the way to "10" isn't clamped mid-edit
+function NumberSetting({
+  value,
+  min,
+  max,
+  step,
+  disabled,
+  onCommit,
+}: NumberSettingProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = (): void => {
+    if (draft === null) return;
+    const parsed = Number(draft);
+    setDraft(null);
+    if (draft.trim() === "" || !Number.isFinite(parsed)) return;
+    const clamped = Math.min(max, Math.max(min, parsed));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(null);
+      }}
+      disabled={disabled}
+      className="h-8"
+    />
+  );
+}
+
+/**
+ * Adjusts the render settings on this device, on top of the loaded
+ * profile. Settings given in the URL win and can't be changed here.
+ */
+export function SettingsPanel({
+  stage,
+  settings,
+  onChange,
+  onReset,
+}: SettingsPanelProps) {
+  const { config, device, url, locked } = settings;
+
+  if (locked) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The render profile locks these settings.
+      </p>
+    );
+  }
+
+  const describe = (key: RenderProfileKey): string | undefined => {
+    if (key in url) return "Set by the URL";
+    if (key in device) return "Changed on this device";
+    return undefined;
+  };
+
+  const takeCurrentView = (): void => {
+    if (!stage) return;
+    onChange({
+      "camera.position": roundVector(stage.camera.position),
+      "camera.lookAt": roundVector(stage.controls.target),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="grid grid-cols-4 gap-2">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label
+            key={key}
+            className="flex flex-col gap-1"
+            title={describe(key)}
+          >
+            <span className="text-xs text-muted-foreground">{label}</span>
+            <Input
+              type="color"
+              value={getRenderSetting(config, key) as string}
+              onChange={(e) => onChange({ [key]: e.target.value })}
+              disabled={key in url}
+              className="h-8 p-1"
+            />
+          </label>
+        ))}
+        {NUMBER_FIELDS.map(({ key, label, step }) => {
+          const spec = RENDER_PROFILE_FIELDS[key];
+          if (spec.type !== "number") return null;
+          return (
+            <label
+              key={key}
+              className="flex flex-col gap-1"
+              title={describe(key)}
+            >
+              <span className="text-xs text-muted-foreground">{label}</span>
+              <NumberSetting
+                value={getRenderSetting(config, key) as number}
+                min={spec.min}
+                max={spec.max}
+                step={step}
+                disabled={key in url}
+                onCommit={(value) => onChange({ [key]: value })}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-4">
+        {SWITCH_FIELDS.map(({ key, label }) => (
+          <div
+            key={key}
+            className="flex items-center space-x-2"
+            title={describe(key)}
+          >
+            <Switch
+              id={`setting-${key}`}
+              checked={getRenderSetting(config, key) as boolean}
+              onCheckedChange={(checked) => onChange({ [key]: checked })}
+              disabled={key in url}
+            />
+            <Label htmlFor={`setting-${key}`}>{label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={takeCurrentView}
+          disabled={
+            !stage || "camera.position" in url || "camera.lookAt" in url
+          }
+        >
+          Use Current View
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onReset}
+          disabled={Object.keys(device).length === 0}
+        >
+          Reset to Profile
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            downloadFile(
+              "render-profile.json",
+              JSON.stringify(toRenderProfileDocument(config), null, 2) + "\n",
+              "application/json"
+            )
+          }
+        >
+          Export Profile
+        </Button>
+      </div>
+    </div>
+  );
+}
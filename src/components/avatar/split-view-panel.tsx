@@ -0,0 +1,169 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { isAbortError } from "@/lib/avatar/errors";
+import { StageLink, StageLinkOptions } from "@/lib/avatar/stage-link";
+
+type SplitViewPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  // Left avatar, driven by the other tabs
+  stage: AvatarStage | null;
+  // Right avatar, only mounted while the split view is on
+  secondStage: AvatarStage | null;
+  defaultModelUrl: string;
+  onError: (message: string) => void;
+};
+
+/**
+ * Turns on a second avatar beside the main one and controls what it shows,
+ * with options to share the camera and lock playback to the left avatar.
+ */
+export function SplitViewPanel({
+  enabled,
+  onEnabledChange,
+  stage,
+  secondStage,
+  defaultModelUrl,
+  onError,
+}: SplitViewPanelProps) {
+  const [link, setLink] = useState<StageLink | null>(null);
+  const [linkOptions, setLinkOptions] = useState<StageLinkOptions>({
+    syncCameras: true,
+    lockTime: false,
+  });
+  const [modelUrl, setModelUrl] = useState<string>(defaultModelUrl);
+  const [animationUrl, setAnimationUrl] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  // Read through refs so typing doesn't relink or reload the stages
+  const linkOptionsRef = useRef(linkOptions);
+  linkOptionsRef.current = linkOptions;
+  const modelUrlRef = useRef(modelUrl);
+  modelUrlRef.current = modelUrl;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!stage || !secondStage) return;
+
+    const stageLink = new StageLink(stage, secondStage, linkOptionsRef.current);
+    setLink(stageLink);
+
+    return () => {
+      stageLink.dispose();
+      setLink(null);
+    };
+  }, [stage, secondStage]);
+
+  const loadModel = useCallback(
+    async (target: AvatarStage, url: string): Promise<void> => {
+      setIsLoading(true);
+      try {
+        await target.loadVRM(url);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        onErrorRef.current(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  // Give a newly mounted right avatar a model straight away
+  useEffect(() => {
+    if (secondStage && modelUrlRef.current) {
+      loadModel(secondStage, modelUrlRef.current);
+    }
+  }, [secondStage, loadModel]);
+
+  const updateLink = (options: Partial<StageLinkOptions>): void => {
+    const next = { ...linkOptions, ...options };
+    setLinkOptions(next);
+    link?.setOptions(next);
+  };
+
+  const handlePlay = async (): Promise<void> => {
+    if (!secondStage || !animationUrl) return;
+    try {
+      await secondStage.playAnimation(animationUrl);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="split-view"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+        />
+        <Label htmlFor="split-view">Show a second avatar on the right</Label>
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Right avatar VRM model URL"
+          value={modelUrl}
+          onChange={(e) => setModelUrl(e.target.value)}
+          disabled={!secondStage || isLoading}
+          className="flex-1"
+        />
+        <Button
+          onClick={() => secondStage && loadModel(secondStage, modelUrl)}
+          disabled={!secondStage || isLoading || !modelUrl}
+        >
+          {isLoading ? "Loading..." : "Load"}
+        </Button>
+      </div>
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Right avatar animation URL"
+          value={animationUrl}
+          onChange={(e) => setAnimationUrl(e.target.value)}
+          disabled={!secondStage}
+          className="flex-1"
+        />
+        <Button onClick={handlePlay} disabled={!secondStage || !animationUrl}>
+          Play
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => secondStage?.stopAnimation()}
+          disabled={!secondStage}
+        >
+          Stop
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="sync-cameras"
+            checked={linkOptions.syncCameras}
+            onCheckedChange={(syncCameras) => updateLink({ syncCameras })}
+            disabled={!link}
+          />
+          <Label htmlFor="sync-cameras">Sync cameras</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="lock-time"
+            checked={linkOptions.lockTime}
+            onCheckedChange={(lockTime) => updateLink({ lockTime })}
+            disabled={!link}
+          />
+          <Label htmlFor="lock-time">Lock playback</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Pause, Play, Repeat, StepBack, StepForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import {
+  FRAME_STEP,
+  PLAYBACK_SPEEDS,
+  PlaybackTransport,
+  TransportEventMap,
+  TransportState,
+} from "@/lib/avatar/transport";
+
+type TransportBarProps = {
+  stage: AvatarStage | null;
+};
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(2).padStart(5, "0")}`;
+};
+
+/**
+ * Play/pause, scrubber, speed, A-B loop and frame stepping for the clip
+ * playing on the stage.
+ */
+export function TransportBar({ stage }: TransportBarProps) {
+  const [transport, setTransport] = useState<PlaybackTransport | null>(null);
+  const [state, setState] = useState<TransportState | null>(null);
+  // Loop start picked with "A", waiting for "B"
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const playbackTransport = new PlaybackTransport(stage);
+    const handleChange = ({ state }: TransportEventMap["change"]): void =>
+      setState(state);
+    playbackTransport.addEventListener("change", handleChange);
+    playbackTransport.addEventListener("timeupdate", handleChange);
+    setTransport(playbackTransport);
+    setState(playbackTransport.state);
+
+    return () => {
+      playbackTransport.removeEventListener("change", handleChange);
+      playbackTransport.removeEventListener("timeupdate", handleChange);
+      playbackTransport.dispose();
+      setTransport(null);
+      setState(null);
+    };
+  }, [stage]);
+
+  const hasClip = !!state && state.duration > 0;
+  const loop = state?.loop ?? null;
+
+  const handleSetA = (): void => {
+    if (!transport || !state) return;
+    transport.setLoop(null);
+    setLoopStart(state.time);
+  };
+
+  const handleSetB = (): void => {
+    if (!transport || !state || loopStart === null) return;
+    transport.setLoop({ start: loopStart, end: state.time });
+    setLoopStart(null);
+  };
+
+  const handleClearLoop = (): void => {
+    transport?.setLoop(null);
+    setLoopStart(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => transport?.step(-1)}
+          disabled={!hasClip}
+          aria-label="Previous frame"
+        >
+          <StepBack />
+        </Button>
+        <Button
+          size="icon"
+          onClick={() => transport?.togglePlay()}
+          disabled={!hasClip}
+          aria-label={state?.playing ? "Pause" : "Play"}
+        >
+          {state?.playing ? <Pause /> : <Play />}
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => transport?.step(1)}
+          disabled={!hasClip}
+          aria-label="Next frame"
+        >
+          <StepForward />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={state?.duration ?? 0}
+          step={FRAME_STEP}
+          value={state?.time ?? 0}
+          onChange={(e) => transport?.seek(Number(e.target.value))}
+          disabled={!hasClip}
+          className="flex-1 accent-primary"
+          aria-label="Clip position"
+        />
+        <span className="text-muted-foreground tabular-nums">
+          {formatTime(state?.time ?? 0)} / {formatTime(state?.duration ?? 0)}
+        </span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-muted-foreground">Speed</span>
+        <NativeSelect
+          value={String(state?.speed ?? 1)}
+          onChange={(e) => transport?.setSpeed(Number(e.target.value))}
+          disabled={!transport}
+          className="h-8 w-20"
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}x
+            </option>
+          ))}
+        </NativeSelect>
+        <Repeat className="size-4 text-muted-foreground" />
+        <Button
+          variant={loopStart !== null ? "secondary" : "outline"}
+          size="sm"
+          onClick={handleSetA}
+          disabled={!hasClip}
+        >
+          A
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSetB}
+          disabled={!hasClip || loopStart === null}
+        >
+          B
+        </Button>
+        <span className="flex-1 text-muted-foreground tabular-nums">
+          {loop
+            ? `${formatTime(loop.start)}–${formatTime(loop.end)}`
+            : loopStart !== null
+              ? `${formatTime(loopStart)}–…`
+              : "No loop"}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClearLoop}
+          disabled={!loop && loopStart === null}
+        >
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { AudioLipSync } from "@/lib/avatar/lip-sync";
+import {
+  loadVisemeTimeline,
+  TimelineLipSync,
+} from "@/lib/avatar/viseme-timeline";
+
+type VoicePanelProps = {
+  stage: AvatarStage | null;
+  onError: (message: string) => void;
+};
+
+/**
+ * Plays a voice prompt with the avatar lip-syncing to it, from a viseme
+ * timing file when one is given and from live audio analysis otherwise.
+ */
+export function VoicePanel({ stage, onError }: VoicePanelProps) {
+  const [lipSync, setLipSync] = useState<AudioLipSync | null>(null);
+  const [timelineLipSync, setTimelineLipSync] =
+    useState<TimelineLipSync | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string>("");
+  const [timelineUrl, setTimelineUrl] = useState<string>("");
+  const [sensitivity, setSensitivity] = useState<string>("1");
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const audioLipSync = new AudioLipSync(stage);
+    const scriptedLipSync = new TimelineLipSync(stage);
+    const handleStart = (): void => setIsPlaying(true);
+    const handleEnd = (): void => setIsPlaying(false);
+    audioLipSync.addEventListener("start", handleStart);
+    audioLipSync.addEventListener("end", handleEnd);
+    scriptedLipSync.addEventListener("start", handleStart);
+    scriptedLipSync.addEventListener("end", handleEnd);
+    setLipSync(audioLipSync);
+    setTimelineLipSync(scriptedLipSync);
+
+    return () => {
+      audioLipSync.removeEventListener("start", handleStart);
+      audioLipSync.removeEventListener("end", handleEnd);
+      scriptedLipSync.removeEventListener("start", handleStart);
+      scriptedLipSync.removeEventListener("end", handleEnd);
+      audioLipSync.dispose();
+      scriptedLipSync.dispose();
+      setLipSync(null);
+      setTimelineLipSync(null);
+    };
+  }, [stage]);
+
+  useEffect(() => {
+    if (lipSync) lipSync.sensitivity = Math.max(0, Number(sensitivity) || 0);
+  }, [lipSync, sensitivity]);
+
+  const handlePlay = async (): Promise<void> => {
+    if (!lipSync || !timelineLipSync) return;
+    lipSync.stop();
+    timelineLipSync.stop();
+    try {
+      if (timelineUrl) {
+        const timeline = await loadVisemeTimeline(timelineUrl);
+        await timelineLipSync.play(timeline, audioUrl || undefined);
+      } else if (audioUrl) {
+        await lipSync.play(audioUrl);
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleStop = (): void => {
+    lipSync?.stop();
+    timelineLipSync?.stop();
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Voice prompt audio URL (.mp3/.wav/.ogg)"
+          value={audioUrl}
+          onChange={(e) => setAudioUrl(e.target.value)}
+          className="flex-1"
+        />
+        <Button
+          onClick={handlePlay}
+          disabled={!lipSync || (!audioUrl && !timelineUrl)}
+        >
+          Speak
+        </Button>
+        <Button variant="outline" onClick={handleStop} disabled={!isPlaying}>
+          Stop
+        </Button>
+      </div>
+      <Input
+        placeholder="Viseme timing file (.json/.tsv), optional"
+        value={timelineUrl}
+        onChange={(e) => setTimelineUrl(e.target.value)}
+      />
+      <div className="flex items-center space-x-2 text-sm">
+        <span className="text-muted-foreground">Mouth sensitivity</span>
+        <Input
+          type="number"
+          min={0}
+          step={0.1}
+          value={sensitivity}
+          onChange={(e) => setSensitivity(e.target.value)}
+          className="h-8 w-20"
+          aria-label="Mouth sensitivity"
+        />
+      </div>
+    </div>
+  );
+}
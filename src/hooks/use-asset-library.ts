@@ -0,0 +1,29 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AssetLibrary, loadAssetLibrary } from "@/lib/avatar/asset-library";
+
+/**
+ * Loads the asset library manifest on mount. `reload` fetches it again,
+ * e.g. after thumbnails were generated.
+ */
+export function useAssetLibrary(onError: (message: string) => void) {
+  const [library, setLibrary] = useState<AssetLibrary | null>(null);
+
+  // Read through a ref so a new callback doesn't refetch the manifest
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const reload = useCallback(async (): Promise<void> => {
+    try {
+      setLibrary(await loadAssetLibrary());
+    } catch (err) {
+      onErrorRef.current(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { library, reload };
+}
@@ -0,0 +1,53 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { RENDER_CONFIG, RenderConfig } from "@/lib/avatar/config";
+import { ProceduralIdleLayer } from "@/lib/avatar/idle-layer";
+
+/**
+ * Mounts an AvatarStage into the element given to the returned container
+ * ref, for as long as that element is mounted. `stage` is null until the
+ * container has been attached, so the container may be rendered
+ * conditionally. A new `config` is applied to the existing scene rather
+ * than re-creating it. Adds the procedural idle layer while
+ * `config.idleLayer` enables it.
+ */
+export function useAvatarStage(config: RenderConfig = RENDER_CONFIG) {
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [stage, setStage] = useState<AvatarStage | null>(null);
+
+  // Read through a ref so config changes don't re-create the stage
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    if (!container) return;
+
+    const avatarStage = new AvatarStage(container, configRef.current);
+    setStage(avatarStage);
+
+    return () => {
+      avatarStage.dispose();
+      setStage(null);
+    };
+  }, [container]);
+
+  useEffect(() => {
+    stage?.applyConfig(config);
+  }, [stage, config]);
+
+  const idleLayerEnabled = config.idleLayer.enabled;
+  useEffect(() => {
+    if (!stage || !idleLayerEnabled) return;
+
+    const idleLayer = new ProceduralIdleLayer(
+      stage,
+      configRef.current.idleLayer
+    );
+    return () => {
+      idleLayer.dispose();
+    };
+  }, [stage, idleLayerEnabled]);
+
+  return { containerRef, stage };
+}
@@ -0,0 +1,83 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AssetEntry } from "@/lib/avatar/asset-library";
+import { getErrorMessage } from "@/lib/avatar/errors";
+import {
+  closeLocalFile,
+  LocalFile,
+  openLocalFile,
+} from "@/lib/avatar/local-files";
+
+const toAssetEntry = ({ name, url, kind }: LocalFile): AssetEntry => ({
+  id: url,
+  kind,
+  name,
+  url,
+  tags: ["local"],
+  duration: null,
+  thumbnail: null,
+});
+
+const isSameFile = (local: LocalFile, file: File): boolean =>
+  local.name === file.name &&
+  local.size === file.size &&
+  local.lastModified === file.lastModified;
+
+/**
+ * Files opened from disk this visit, listed as library entries. Opening a
+ * file again reuses its entry, and a changed file with the same name
+ * replaces the old one. Object URLs are released once replaced or on
+ * unmount.
+ */
+export function useLocalFiles() {
+  const [files, setFiles] = useState<LocalFile[]>([]);
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // Opens what it can and reports why the other files couldn't be opened
+  const open = useCallback(
+    async (
+      selected: File[]
+    ): Promise<{ opened: LocalFile[]; errors: string[] }> => {
+      const results = await Promise.allSettled(
+        selected.map((file) => {
+          const existing = filesRef.current.find((local) =>
+            isSameFile(local, file)
+          );
+          return existing ? Promise.resolve(existing) : openLocalFile(file);
+        })
+      );
+      const opened: LocalFile[] = [];
+      const errors: string[] = [];
+      results.forEach((result) => {
+        if (result.status === "fulfilled") opened.push(result.value);
+        else errors.push(getErrorMessage(result.reason));
+      });
+
+      const added = opened.filter((file) => !filesRef.current.includes(file));
+      const replaced = filesRef.current.filter((local) =>
+        added.some(({ name }) => name === local.name)
+      );
+      replaced.forEach(({ url }) => closeLocalFile(url));
+      setFiles((current) => [
+        ...added,
+        ...current.filter((local) => !replaced.includes(local)),
+      ]);
+      return { opened, errors };
+    },
+    []
+  );
+
+  useEffect(
+    () => () => filesRef.current.forEach(({ url }) => closeLocalFile(url)),
+    []
+  );
+
+  const entries = files.map(toAssetEntry);
+  return {
+    files,
+    open,
+    models: entries.filter(({ kind }) => kind === "model"),
+    animations: entries.filter(({ kind }) => kind === "animation"),
+  };
+}
@@ -0,0 +1,89 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  loadDeviceProfile,
+  loadRenderProfile,
+  parseRenderUrl,
+  RenderProfile,
+  RenderProfileKey,
+  RenderSettingChanges,
+  RenderSettings,
+  resolveRenderSettings,
+  saveDeviceProfile,
+} from "@/lib/avatar/render-profile";
+
+/**
+ * Resolves the render config from the profile file, this device's saved
+ * settings and the URL. Renders with RENDER_CONFIG until the profile has
+ * loaded. `updateDeviceSettings` saves settings on this device; an
+ * undefined value falls back to the profile's. If saving fails the change
+ * still applies until the page reloads.
+ */
+export function useRenderSettings(onError: (message: string) => void) {
+  const [settings, setSettings] = useState<RenderSettings>(() =>
+    resolveRenderSettings({}, {}, {})
+  );
+
+  // Read through a ref so a new callback doesn't reload the profile
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const saveDevice = useCallback((device: RenderProfile): void => {
+    try {
+      saveDeviceProfile(device);
+    } catch (err) {
+      onErrorRef.current(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { profileUrl, overrides } = parseRenderUrl(window.location.search);
+    const device = loadDeviceProfile();
+
+    loadRenderProfile(profileUrl)
+      .catch((err) => {
+        onErrorRef.current(err instanceof Error ? err.message : String(err));
+        return {};
+      })
+      .then((profile) => {
+        if (!cancelled) {
+          setSettings(resolveRenderSettings(profile, device, overrides));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateDeviceSettings = useCallback(
+    (changes: RenderSettingChanges): void => {
+      if (settings.locked) return;
+      const device = { ...settings.device };
+      (Object.keys(changes) as RenderProfileKey[]).forEach((key) => {
+        const value = changes[key];
+        if (value === undefined) delete device[key];
+        else device[key] = value;
+      });
+      saveDevice(device);
+      setSettings(
+        resolveRenderSettings(settings.profile, device, settings.url)
+      );
+    },
+    [settings, saveDevice]
+  );
+
+  const resetDeviceSettings = useCallback((): void => {
+    if (settings.locked) return;
+    saveDevice({});
+    setSettings(resolveRenderSettings(settings.profile, {}, settings.url));
+  }, [settings, saveDevice]);
+
+  return {
+    settings,
+    config: settings.config,
+    updateDeviceSettings,
+    resetDeviceSettings,
+  };
+}
@@ -0,0 +1,49 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import {
+  RepCounter,
+  RepCounterEventMap,
+  RepCounterState,
+} from "@/lib/avatar/rep-counter";
+
+/**
+ * Counts repetitions on the given stage and mirrors the count.
+ * `onTargetReached` fires once all sets of a clip's target are done.
+ */
+export function useRepCounter(
+  stage: AvatarStage | null,
+  onTargetReached?: (state: RepCounterState) => void
+) {
+  const [counter, setCounter] = useState<RepCounter | null>(null);
+  const [state, setState] = useState<RepCounterState | null>(null);
+
+  // Read through a ref so a new callback doesn't recreate the counter
+  const onTargetReachedRef = useRef(onTargetReached);
+  onTargetReachedRef.current = onTargetReached;
+
+  useEffect(() => {
+    if (!stage) return;
+
+    const repCounter = new RepCounter(stage);
+    const handleChange = ({ state }: RepCounterEventMap["change"]): void =>
+      setState(state);
+    const handleTargetReached = ({
+      state,
+    }: RepCounterEventMap["targetreached"]): void =>
+      onTargetReachedRef.current?.(state);
+    repCounter.addEventListener("change", handleChange);
+    repCounter.addEventListener("targetreached", handleTargetReached);
+    setCounter(repCounter);
+
+    return () => {
+      repCounter.removeEventListener("change", handleChange);
+      repCounter.removeEventListener("targetreached", handleTargetReached);
+      repCounter.dispose();
+      setCounter(null);
+      setState(null);
+    };
+  }, [stage]);
+
+  return { counter, state };
+}
@@ -0,0 +1,51 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { AvatarStage } from "@/lib/avatar/avatar-stage";
+import { ExerciseSession } from "@/lib/avatar/session";
+import {
+  SessionRunner,
+  SessionRunnerEventMap,
+  SessionRunnerState,
+} from "@/lib/avatar/session-runner";
+
+/**
+ * Keeps a SessionRunner for the loaded session on the given stage and
+ * mirrors its state. Loading another session replaces the runner.
+ */
+export function useSessionRunner(
+  stage: AvatarStage | null,
+  onError: (message: string) => void
+) {
+  const [session, setSession] = useState<ExerciseSession | null>(null);
+  const [runner, setRunner] = useState<SessionRunner | null>(null);
+  const [state, setState] = useState<SessionRunnerState | null>(null);
+
+  // Read through a ref so a new callback doesn't recreate the runner
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!stage || !session) return;
+
+    const sessionRunner = new SessionRunner(stage, session);
+    const handleStateChange = ({
+      state,
+    }: SessionRunnerEventMap["statechange"]): void => setState(state);
+    const handleError = ({ message }: SessionRunnerEventMap["error"]): void =>
+      onErrorRef.current(message);
+    sessionRunner.addEventListener("statechange", handleStateChange);
+    sessionRunner.addEventListener("error", handleError);
+    setRunner(sessionRunner);
+    setState(sessionRunner.state);
+
+    return () => {
+      sessionRunner.removeEventListener("statechange", handleStateChange);
+      sessionRunner.removeEventListener("error", handleError);
+      sessionRunner.dispose();
+      setRunner(null);
+      setState(null);
+    };
+  }, [stage, session]);
+
+  return { session, loadSession: setSession, runner, state };
+}
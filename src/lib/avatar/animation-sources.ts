@@ -0,0 +1,188 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { BVHLoader } from "three/examples/jsm/loaders/BVHLoader.js";
+import {
+  VRMAnimation,
+  VRMAnimationLoaderPlugin,
+} from "@pixiv/three-vrm-animation";
+import { loadAsset } from "./asset-store";
+import { getLocalFileFormat } from "./local-files";
+import { parsePoseRecording, PoseRecording } from "./pose-landmarks";
+
+/** A clip as authored, together with the rig it animates in rest pose. */
+export type RigAnimationSource = {
+  kind: "rig";
+  url: string;
+  clip: THREE.AnimationClip;
+  root: THREE.Object3D;
+};
+
+/** A VRM Animation, already expressed in humanoid bones and expressions. */
+export type VRMAnimationSource = {
+  kind: "vrma";
+  url: string;
+  animation: VRMAnimation;
+};
+
+/** Pose-estimation landmarks, solved onto the VRM when played. */
+export type PoseAnimationSource = {
+  kind: "pose";
+  url: string;
+  recording: PoseRecording;
+};
+
+export type AnimationSource =
+  RigAnimationSource | VRMAnimationSource | PoseAnimationSource;
+
+/** The loaders an animation file can be read with. */
+export type AnimationFormat = "fbx" | "gltf" | "bvh" | "vrma" | "json" | "csv";
+
+const decodeText = (bytes: ArrayBuffer): string =>
+  new TextDecoder().decode(bytes);
+
+const loadFBXSource = async (url: string): Promise<RigAnimationSource> => {
+  // Use FBXLoader for FBX files
+  const loader = new FBXLoader();
+  const fbx = await loadAsset(url, (bytes, path) => loader.parse(bytes, path));
+
+  console.log("FBX loaded:", fbx);
+
+  // Get animations from FBX
+  const animations = fbx.animations;
+  if (!animations || animations.length === 0) {
+    throw new Error("No animation found in the FBX file");
+  }
+
+  console.log("FBX animations found:", animations.length);
+
+  // Mixamo exports name their take "mixamo.com"
+  const clip =
+    THREE.AnimationClip.findByName(animations, "mixamo.com") ?? animations[0];
+  return { kind: "rig", url, clip, root: fbx };
+};
+
+const loadGLTFSource = async (url: string): Promise<RigAnimationSource> => {
+  // Default to GLTFLoader for GLB/GLTF files
+  const loader = new GLTFLoader();
+  const gltf = await loadAsset(url, (bytes, path) =>
+    loader.parseAsync(bytes, path)
+  );
+
+  // Get animation
+  const clip = gltf.animations[0];
+  if (!clip) {
+    throw new Error("No animation found in the file");
+  }
+  return { kind: "rig", url, clip, root: gltf.scene };
+};
+
+// BVH has no unit field; mocap labs mostly export centimetres
+const BVH_CENTIMETRE_HEIGHT_THRESHOLD = 3;
+
+const loadBVHSource = async (url: string): Promise<RigAnimationSource> => {
+  const loader = new BVHLoader();
+  const bvh = await loadAsset(url, (bytes) => loader.parse(decodeText(bytes)));
+
+  // Frame times are already in seconds, taken from the "Frame Time" header
+  const { skeleton, clip } = bvh;
+  if (clip.tracks.length === 0 || clip.duration <= 0) {
+    throw new Error("No motion found in the BVH file");
+  }
+
+  // Joint names go into track paths unescaped, so sanitize both sides
+  skeleton.bones.forEach((bone) => {
+    bone.name = THREE.PropertyBinding.sanitizeNodeName(bone.name);
+  });
+  clip.tracks.forEach((track) => {
+    const separator = track.name.lastIndexOf(".");
+    track.name = `${THREE.PropertyBinding.sanitizeNodeName(
+      track.name.slice(0, separator)
+    )}${track.name.slice(separator)}`;
+  });
+
+  // Convert to metres so the rig matches the VRM's units
+  const root = new THREE.Group();
+  root.add(skeleton.bones[0]);
+  root.updateMatrixWorld(true);
+  const bounds = new THREE.Box3();
+  skeleton.bones.forEach((bone) => {
+    bounds.expandByPoint(bone.getWorldPosition(new THREE.Vector3()));
+  });
+  const height = bounds.max.y - bounds.min.y;
+  if (height > BVH_CENTIMETRE_HEIGHT_THRESHOLD) {
+    root.scale.setScalar(0.01);
+  }
+
+  return { kind: "rig", url, clip, root };
+};
+
+const loadVRMASource = async (url: string): Promise<VRMAnimationSource> => {
+  const loader = new GLTFLoader();
+  loader.register((parser) => new VRMAnimationLoaderPlugin(parser));
+
+  const gltf = await loadAsset(url, (bytes, path) =>
+    loader.parseAsync(bytes, path)
+  );
+
+  const animations = gltf.userData.vrmAnimations as VRMAnimation[] | undefined;
+  if (!animations || animations.length === 0) {
+    throw new Error("No VRM Animation found in the file");
+  }
+  return { kind: "vrma", url, animation: animations[0] };
+};
+
+const loadPoseSource = async (
+  url: string,
+  format: "json" | "csv"
+): Promise<PoseAnimationSource> => {
+  const text = await loadAsset(url, decodeText);
+
+  const recording = parsePoseRecording(text, format);
+  return { kind: "pose", url, recording };
+};
+
+// Anything unrecognised is tried as GLB/glTF
+const getAnimationFormat = (url: string): AnimationFormat => {
+  const localFormat = getLocalFileFormat(url);
+  if (localFormat === "vrm") {
+    throw new Error("The file is a VRM model, not an animation");
+  }
+  if (localFormat) return localFormat;
+
+  const extension = url.toLowerCase().split(/[?#]/)[0].split(".").pop();
+  switch (extension) {
+    case "fbx":
+    case "bvh":
+    case "vrma":
+    case "json":
+    case "csv":
+      return extension;
+    default:
+      return "gltf";
+  }
+};
+
+/**
+ * Fetch and parse an animation file, picking the loader by extension, or by
+ * the sniffed format for local files, whose object URLs have none. Files
+ * come from the offline asset store when they have been loaded before.
+ */
+export const loadAnimationSource = async (
+  url: string
+): Promise<AnimationSource> => {
+  const format = getAnimationFormat(url);
+  switch (format) {
+    case "fbx":
+      return loadFBXSource(url);
+    case "bvh":
+      return loadBVHSource(url);
+    case "vrma":
+      return loadVRMASource(url);
+    case "json":
+    case "csv":
+      return loadPoseSource(url, format);
+    case "gltf":
+      return loadGLTFSource(url);
+  }
+};
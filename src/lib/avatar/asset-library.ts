@@ -0,0 +1,197 @@
+import { AvatarStage } from "./avatar-stage";
+import { getErrorMessage } from "./errors";
+
+/**
+ * The manifest of models and clips offered by the pickers, generated from
+ * public/ by `pnpm library` (scripts/generate-asset-library.mjs). Details
+ * the script can't work out, such as FBX durations and thumbnails, are
+ * generated in the app, kept on this device, and can be exported back into
+ * the manifest.
+ */
+
+export const ASSET_LIBRARY_URL = "/library.json";
+
+export const ASSET_TAGS = ["upper body", "lower body", "balance"];
+
+export type AssetKind = "model" | "animation";
+
+export type AssetEntry = {
+  id: string;
+  kind: AssetKind;
+  name: string;
+  url: string;
+  tags: string[];
+  // Seconds; null for models and clips not measured yet
+  duration: number | null;
+  // Image URL or data URL
+  thumbnail: string | null;
+};
+
+export type AssetLibrary = {
+  version: 1;
+  models: AssetEntry[];
+  animations: AssetEntry[];
+};
+
+// Details generated in the app, by asset URL
+type GeneratedDetails = Record<
+  string,
+  Pick<AssetEntry, "duration" | "thumbnail">
+>;
+
+const GENERATED_STORAGE_KEY = "mr-rehab-3d:asset-library-generated";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseEntries = (value: unknown, kind: AssetKind): AssetEntry[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`"${kind}s" must be a list`);
+  return value.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.url !== "string" || !entry.url) {
+      throw new Error(`${kind} ${index} needs a "url"`);
+    }
+    const { url } = entry;
+    return {
+      id: typeof entry.id === "string" ? entry.id : url,
+      kind,
+      name: typeof entry.name === "string" ? entry.name : url,
+      url,
+      tags: Array.isArray(entry.tags)
+        ? entry.tags.filter((tag): tag is string => typeof tag === "string")
+        : [],
+      duration: typeof entry.duration === "number" ? entry.duration : null,
+      thumbnail: typeof entry.thumbnail === "string" ? entry.thumbnail : null,
+    };
+  });
+};
+
+/** Check an untrusted manifest, filling defaults for optional fields. */
+export const parseAssetLibrary = (value: unknown): AssetLibrary => {
+  try {
+    if (!isRecord(value)) throw new Error("Manifest must be a JSON object");
+    return {
+      version: 1,
+      models: parseEntries(value.models, "model"),
+      animations: parseEntries(value.animations, "animation"),
+    };
+  } catch (err) {
+    throw new Error(`Invalid asset library: ${getErrorMessage(err)}`);
+  }
+};
+
+/** Fetch the manifest and overlay details generated on this device. */
+export const loadAssetLibrary = async (
+  url: string = ASSET_LIBRARY_URL
+): Promise<AssetLibrary> => {
+  let value: unknown;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    value = await response.json();
+  } catch (err) {
+    throw new Error(`Failed to load asset library: ${getErrorMessage(err)}`);
+  }
+  return applyGeneratedDetails(parseAssetLibrary(value));
+};
+
+/**
+ * Entries whose name, file or tags contain every word of the query and
+ * that carry all of the given tags.
+ */
+export const searchAssets = (
+  entries: AssetEntry[],
+  query: string,
+  tags: string[] = []
+): AssetEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((entry) => {
+    if (!tags.every((tag) => entry.tags.includes(tag))) return false;
+    const haystack = [entry.name, entry.url, ...entry.tags]
+      .join(" ")
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+const loadGeneratedDetails = (): GeneratedDetails => {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = window.localStorage.getItem(GENERATED_STORAGE_KEY);
+    const details: unknown = stored ? JSON.parse(stored) : {};
+    return isRecord(details) ? (details as GeneratedDetails) : {};
+  } catch (e) {
+    console.warn("Ignoring unreadable generated asset details:", e);
+    return {};
+  }
+};
+
+const saveGeneratedDetails = (details: GeneratedDetails): void => {
+  try {
+    window.localStorage.setItem(GENERATED_STORAGE_KEY, JSON.stringify(details));
+  } catch (e) {
+    // Thumbnails are a convenience; a full quota just means regenerating
+    console.warn("Could not save generated asset details:", e);
+  }
+};
+
+/** Fill missing durations and thumbnails from ones generated earlier. */
+export const applyGeneratedDetails = (library: AssetLibrary): AssetLibrary => {
+  const generated = loadGeneratedDetails();
+  const apply = (entry: AssetEntry): AssetEntry => {
+    const details = generated[entry.url];
+    return details
+      ? {
+          ...entry,
+          duration: entry.duration ?? details.duration,
+          thumbnail: entry.thumbnail ?? details.thumbnail,
+        }
+      : entry;
+  };
+  return {
+    ...library,
+    models: library.models.map(apply),
+    animations: library.animations.map(apply),
+  };
+};
+
+/**
+ * Load each entry on the stage to measure clips and capture a thumbnail,
+ * saving the results on this device. Clips are posed halfway through on
+ * the current VRM; models replace it, so callers reload the model they
+ * want afterwards. Entries that fail to load are skipped with a warning.
+ */
+export const generateAssetDetails = async (
+  stage: AvatarStage,
+  entries: AssetEntry[],
+  onProgress?: (done: number, total: number) => void
+): Promise<void> => {
+  const generated = loadGeneratedDetails();
+  // Clips need a VRM, so do them before any model replaces it
+  const ordered = [
+    ...entries.filter(({ kind }) => kind === "animation"),
+    ...entries.filter(({ kind }) => kind === "model"),
+  ];
+
+  for (const [index, entry] of ordered.entries()) {
+    onProgress?.(index, ordered.length);
+    try {
+      let duration: number | null = null;
+      if (entry.kind === "model") {
+        await stage.loadVRM(entry.url);
+      } else {
+        const clip = await stage.prepareAnimation(entry.url);
+        stage.playClip(clip, { crossfade: 0 });
+        stage.seek(clip.duration / 2);
+        duration = clip.duration;
+      }
+      generated[entry.url] = { duration, thumbnail: stage.captureFrame() };
+    } catch (err) {
+      console.warn(`Skipping ${entry.url}:`, err);
+    }
+  }
+
+  stage.stopAnimation();
+  saveGeneratedDetails(generated);
+  onProgress?.(ordered.length, ordered.length);
+};
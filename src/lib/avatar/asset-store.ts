@@ -0,0 +1,217 @@
+import * as THREE from "three";
+import { getErrorMessage } from "./errors";
+
+/**
+ * Offline copies of model and animation files, kept in IndexedDB by URL,
+ * so exercises keep working on a poor connection. A stored file is
+ * revalidated with the server on every load, by ETag or Last-Modified,
+ * and replaced when the server has a newer one; it is served as is when
+ * the server can't be reached or doesn't answer in time. Object and data
+ * URLs are already local and bypass the store.
+ */
+
+export type AssetStoreUsage = {
+  files: number;
+  // Storage used by the whole app, as estimated by the browser
+  bytes: number | null;
+};
+
+type StoredAsset = {
+  url: string;
+  bytes: ArrayBuffer;
+  storedAt: number;
+  // Validators from the response, for conditional requests
+  etag?: string;
+  lastModified?: string;
+};
+
+const DB_NAME = "mr-rehab-3d";
+const DB_VERSION = 1;
+const STORE_NAME = "assets";
+// How long to wait for the server's response headers before serving a
+// stored copy; a new version's body may then take as long as it needs
+const REVALIDATE_TIMEOUT_MS = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap a request so it can be awaited
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "url" });
+    };
+    dbPromise = settle(request).catch((err) => {
+      // Let a later call try again, e.g. after a blocked upgrade
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+// Relative and absolute spellings of a URL share one entry
+const toKey = (url: string): string =>
+  typeof window === "undefined" ? url : new URL(url, window.location.href).href;
+
+const isStorable = (key: string): boolean => /^https?:/.test(key);
+
+const checkResponse = (response: Response, url: string): Response => {
+  if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+  return response;
+};
+
+const fetchBytes = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> =>
+  checkResponse(await fetch(url, { signal }), url).arrayBuffer();
+
+const readStored = async (key: string): Promise<StoredAsset | undefined> => {
+  try {
+    return await withStore<StoredAsset | undefined>("readonly", (store) =>
+      store.get(key)
+    );
+  } catch (err) {
+    console.warn("Asset store unavailable, fetching instead:", err);
+    return undefined;
+  }
+};
+
+// Read the body and store it with its validators
+const storeResponse = async (
+  key: string,
+  response: Response
+): Promise<ArrayBuffer> => {
+  const bytes = await response.arrayBuffer();
+  const asset: StoredAsset = {
+    url: key,
+    bytes,
+    storedAt: Date.now(),
+    etag: response.headers.get("ETag") ?? undefined,
+    lastModified: response.headers.get("Last-Modified") ?? undefined,
+  };
+  try {
+    await withStore("readwrite", (store) => store.put(asset));
+  } catch (err) {
+    // Storing is best effort; a full quota only costs the offline copy
+    console.warn(`Could not store ${key} for offline use:`, err);
+  }
+  return bytes;
+};
+
+/**
+ * Fetch a file, revalidating a stored copy or storing a fresh one for
+ * next time. Aborting `signal` stops the download and rejects with an
+ * AbortError rather than falling back to the stored copy.
+ */
+export const fetchAssetBytes = async (
+  url: string,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> => {
+  const key = toKey(url);
+  if (!isStorable(key)) return fetchBytes(url, signal);
+
+  const stored = await readStored(key);
+  signal?.throwIfAborted();
+  if (!stored) {
+    return storeResponse(key, checkResponse(await fetch(url, { signal }), url));
+  }
+
+  const headers = new Headers();
+  if (stored.etag) headers.set("If-None-Match", stored.etag);
+  if (stored.lastModified) {
+    headers.set("If-Modified-Since", stored.lastModified);
+  }
+
+  // Times out the wait for headers; also follows the caller's signal
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REVALIDATE_TIMEOUT_MS);
+  const handleAbort = (): void => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", handleAbort, { once: true });
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: controller.signal });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn(
+        `Could not reach the server for ${url}, using the offline copy:`,
+        err
+      );
+      return stored.bytes;
+    } finally {
+      clearTimeout(timer);
+    }
+    if (response.status === 304) return stored.bytes;
+    // A missing file is an error, but a struggling server isn't
+    if (response.status >= 500) {
+      console.warn(
+        `HTTP ${response.status} for ${url}, using the offline copy`
+      );
+      return stored.bytes;
+    }
+    checkResponse(response, url);
+    try {
+      return await storeResponse(key, response);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      // The new version broke off; the stored copy still works
+      console.warn(`Could not download ${url}, using the offline copy:`, err);
+      return stored.bytes;
+    }
+  } finally {
+    signal?.removeEventListener("abort", handleAbort);
+  }
+};
+
+/**
+ * Fetch a file through the store and pass it to `parse` with the URL's
+ * directory, against which the file's own references resolve.
+ */
+export const loadAsset = async <T>(
+  url: string,
+  parse: (bytes: ArrayBuffer, path: string) => T | Promise<T>,
+  signal?: AbortSignal
+): Promise<T> =>
+  parse(
+    await fetchAssetBytes(url, signal),
+    THREE.LoaderUtils.extractUrlBase(url)
+  );
+
+/** Count the stored files, without reading them. */
+export const getAssetStoreUsage = async (): Promise<AssetStoreUsage> => {
+  try {
+    const files = await withStore("readonly", (store) => store.count());
+    const estimate = await navigator.storage?.estimate();
+    return { files, bytes: estimate?.usage ?? null };
+  } catch (err) {
+    throw new Error(`Failed to read the asset store: ${getErrorMessage(err)}`);
+  }
+};
+
+/** Drop every stored file so the next load fetches fresh copies. */
+export const clearAssetStore = async (): Promise<void> => {
+  try {
+    await withStore("readwrite", (store) => store.clear());
+  } catch (err) {
+    throw new Error(`Failed to clear the asset store: ${getErrorMessage(err)}`);
+  }
+};
@@ -0,0 +1,1263 @@
+import * as THREE from "three";
+import {
+  GLTFLoader,
+  GLTFLoaderPlugin,
+} from "three/addons/loaders/GLTFLoader.js";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import {
+  VRMLoaderPlugin,
+  VRM,
+  VRMHumanBoneName,
+  VRMUtils,
+} from "@pixiv/three-vrm";
+import {
+  createVRMAnimationClip,
+  VRMLookAtQuaternionProxy,
+} from "@pixiv/three-vrm-animation";
+import { CameraDirector } from "./camera-director";
+import { RENDER_CONFIG, RenderConfig } from "./config";
+import {
+  abortable,
+  createAbortError,
+  getErrorMessage,
+  isAbortError,
+} from "./errors";
+import {
+  EXPRESSION_EASINGS,
+  ExpressionTransition,
+  ExpressionTransitionOptions,
+  getExpressionNames,
+} from "./expressions";
+import { getLocalFileFormat } from "./local-files";
+import { LookAtController } from "./look-at";
+import { mirrorClip } from "./mirror";
+import { solvePoseClip } from "./pose-solver";
+import { retargetClip } from "./retarget";
+import { AnimationSource, loadAnimationSource } from "./animation-sources";
+import { loadAsset } from "./asset-store";
+import {
+  BoneMapProfile,
+  createBoneResolver,
+  detectBoneMapProfile,
+  getTrackNodeNames,
+  VRM_HUMANOID_PROFILE,
+} from "./bone-maps";
+
+// Events emitted by the stage so UI wrappers can mirror its state
+export type AvatarStageEventMap = {
+  load: { vrm: VRM };
+  // The strongest expression layer changed, "" when none is set
+  expressionchange: { expression: string };
+  // Target weights of every non-zero expression layer
+  expressionweightschange: { weights: Record<string, number> };
+  animationload: {
+    url: string;
+    // Source rig nodes animated by the clip; empty for humanoid-native clips
+    nodeNames: string[];
+    profile: BoneMapProfile | null;
+  };
+  // A clip started playing through `playClip`
+  actionstart: { action: THREE.AnimationAction };
+  // The active clip was faded out by `stopAnimation`
+  actionstop: { action: THREE.AnimationAction };
+  // The active action was swapped for one carrying on where it left off,
+  // e.g. when mirroring; watchers of `previous` should follow `action`
+  actionreplace: {
+    previous: THREE.AnimationAction;
+    action: THREE.AnimationAction;
+  };
+  // Forwarded from the mixer: an action wrapped around to its start
+  actionloop: { action: THREE.AnimationAction; loopDelta: number };
+  // Forwarded from the mixer: an action with finite repetitions completed
+  actionfinished: { action: THREE.AnimationAction };
+  // Every frame after the mixer has run and before the VRM applies the pose
+  update: { vrm: VRM; delta: number };
+};
+
+export type PlayClipOptions = {
+  // Number of times to play the clip; Infinity loops forever
+  repetitions?: number;
+  // Seconds to crossfade from the previously active action
+  crossfade?: number;
+};
+
+/**
+ * Options for `loadVRM` and `playAnimation`. Aborting `signal` always
+ * stops the wait. A model download stops too unless another `loadVRM` of
+ * the same URL still waits for it. Animation files are shared by every
+ * model on the stage, so theirs keeps going and is cached once it arrives.
+ */
+export type LoadOptions = {
+  signal?: AbortSignal;
+};
+
+export type PlayAnimationOptions = PlayClipOptions &
+  LoadOptions & {
+    // Bone map profile for the source rig; detected from track names if omitted
+    profile?: BoneMapProfile;
+  };
+
+/** Renderer and cache counts, for spotting leaks. */
+export type StageStats = {
+  // GPU resources the renderer holds
+  geometries: number;
+  textures: number;
+  programs: number;
+  // Last frame
+  drawCalls: number;
+  triangles: number;
+  sceneObjects: number;
+  cachedModels: number;
+  cachedAnimations: number;
+};
+
+type PreparedClip = {
+  clip: THREE.AnimationClip;
+  nodeNames: string[];
+  profile: BoneMapProfile | null;
+};
+
+type PendingVrmLoad = {
+  load: Promise<VRM>;
+  // Aborts the download once no caller waits for it
+  controller: AbortController;
+  waiters: number;
+};
+
+const DEFAULT_CROSSFADE = 0.5;
+// Models kept parsed for switching back, per stage
+const VRM_CACHE_SIZE = 3;
+// Short blend when mirroring flips the active clip mid-movement
+const MIRROR_CROSSFADE = 0.15;
+
+/**
+ * Owns the Three.js scene, renderer, VRM model and animation mixer.
+ * Mount it into a container element and drive it through its methods;
+ * call `dispose()` when the container goes away.
+ */
+export class AvatarStage extends THREE.EventDispatcher<AvatarStageEventMap> {
+  readonly scene: THREE.Scene;
+  readonly camera: THREE.PerspectiveCamera;
+  readonly renderer: THREE.WebGLRenderer;
+  readonly controls: OrbitControls;
+  // Eye and head tracking; set targets through `stage.lookAt.setTarget`
+  readonly lookAt: LookAtController;
+  // Camera presets, transitions and bone following
+  readonly cameraDirector: CameraDirector;
+
+  private readonly container: HTMLElement;
+  private currentConfig: RenderConfig;
+  private readonly hemisphereLight = new THREE.HemisphereLight();
+  private readonly directionalLight = new THREE.DirectionalLight();
+  private readonly ambientLight = new THREE.AmbientLight();
+  private readonly wallMaterial = new THREE.MeshStandardMaterial({
+    side: THREE.DoubleSide,
+  });
+  private readonly clock = new THREE.Clock();
+  private currentVrm: VRM | null = null;
+  private mixer: THREE.AnimationMixer | null = null;
+  private activeAction: THREE.AnimationAction | null = null;
+  // Clip given to `playClip` for the active action, before mirroring
+  private activeClip: THREE.AnimationClip | null = null;
+  // Loops the active action has completed, for carrying them over
+  private activeLoops = 0;
+  // Running `playOverlay` actions, which follow seeking and speed changes
+  private readonly overlayActions = new Set<THREE.AnimationAction>();
+  private mirroredPlayback = false;
+  private playbackSpeed = 1;
+  // Left/right swapped versions of clips played while mirrored
+  private readonly mirroredClips = new WeakMap<
+    THREE.AnimationClip,
+    THREE.AnimationClip
+  >();
+  private lastSource: AnimationSource | null = null;
+  // Parsed models by URL, least recently used first
+  private readonly vrmCache = new Map<string, VRM>();
+  // Models being parsed, by URL
+  private readonly vrmLoads = new Map<string, PendingVrmLoad>();
+  // Bumped by each load so only the latest one is applied
+  private vrmRequest = 0;
+  private animationRequest = 0;
+  // Parsed files by URL, shared across models
+  private readonly sourceCache = new Map<string, Promise<AnimationSource>>();
+  // Clips retargeted onto each model with their detected profile
+  private readonly clipCache = new WeakMap<
+    VRM,
+    WeakMap<AnimationSource, PreparedClip>
+  >();
+  private activeExpression = "";
+  // Target weight per expression, and blends still easing towards them
+  private readonly expressionLayers = new Map<string, number>();
+  private readonly expressionTransitions = new Map<
+    string,
+    ExpressionTransition
+  >();
+  private animationPaused = false;
+  private disposed = false;
+  // Follows the container rather than the window, e.g. in a split view
+  private readonly resizeObserver = new ResizeObserver(() =>
+    this.handleResize()
+  );
+
+  constructor(container: HTMLElement, config: RenderConfig = RENDER_CONFIG) {
+    super();
+    this.container = container;
+    this.currentConfig = config;
+
+    // Scene setup
+    this.scene = new THREE.Scene();
+
+    // Camera setup
+    const { width, height } = this.getViewportSize();
+    this.camera = new THREE.PerspectiveCamera(
+      config.camera.fov,
+      width / height,
+      config.camera.near,
+      config.camera.far
+    );
+    this.camera.position.set(
+      config.camera.position.x,
+      config.camera.position.y,
+      config.camera.position.z
+    );
+    this.camera.lookAt(
+      config.camera.lookAt.x,
+      config.camera.lookAt.y,
+      config.camera.lookAt.z
+    );
+
+    // Renderer setup
+    this.renderer = new THREE.WebGLRenderer({
+      antialias: true,
+    });
+    this.renderer.setSize(width, height);
+    this.renderer.setPixelRatio(window.devicePixelRatio);
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    this.renderer.shadowMap.enabled = true;
+    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    container.innerHTML = "";
+    container.appendChild(this.renderer.domElement);
+
+    // Controls setup
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.controls.enableDamping = true;
+    this.controls.dampingFactor = 0.05;
+    this.controls.minDistance = 1;
+    this.controls.maxDistance = 10;
+    this.controls.target.set(
+      config.camera.lookAt.x,
+      config.camera.lookAt.y,
+      config.camera.lookAt.z
+    );
+
+    this.lookAt = new LookAtController(this.camera, config.lookAt);
+    this.cameraDirector = new CameraDirector(
+      this.camera,
+      this.controls,
+      config
+    );
+
+    this.setupLights();
+    this.setupRoom();
+    this.applyAppearance(config);
+
+    this.resizeObserver.observe(container);
+    this.renderer.setAnimationLoop(this.animate);
+  }
+
+  /** Settings the stage currently renders with. */
+  get config(): RenderConfig {
+    return this.currentConfig;
+  }
+
+  /**
+   * Switch to new settings without re-creating the scene. Colours, lights,
+   * shadows, camera framing, control locks and expression settings apply
+   * at once; look-at and idle settings only apply to new stages.
+   */
+  applyConfig(config: RenderConfig): void {
+    const previous = this.currentConfig;
+    this.currentConfig = config;
+    this.applyAppearance(config);
+    this.cameraDirector.setDefaultDuration(config.cameraTransition);
+
+    // Reframe only when the framing changed, keeping the user's view
+    const { camera } = config;
+    if (
+      JSON.stringify(camera.position) !==
+        JSON.stringify(previous.camera.position) ||
+      JSON.stringify(camera.lookAt) !== JSON.stringify(previous.camera.lookAt)
+    ) {
+      this.camera.position.set(
+        camera.position.x,
+        camera.position.y,
+        camera.position.z
+      );
+      this.controls.target.set(
+        camera.lookAt.x,
+        camera.lookAt.y,
+        camera.lookAt.z
+      );
+      this.controls.update();
+    }
+  }
+
+  /** The loaded VRM, if any. */
+  get vrm(): VRM | null {
+    return this.currentVrm;
+  }
+
+  /** The action started by the last `playClip`, until it's stopped. */
+  get action(): THREE.AnimationAction | null {
+    return this.activeAction;
+  }
+
+  /** The strongest expression layer, or "". */
+  get expression(): string {
+    return this.activeExpression;
+  }
+
+  /** Target weights of the non-zero expression layers. */
+  get expressionWeights(): Record<string, number> {
+    return Object.fromEntries(this.expressionLayers);
+  }
+
+  /** Expressions the loaded model offers, including its custom ones. */
+  getExpressionNames(): string[] {
+    return getExpressionNames(this.currentVrm, this.config.expressions);
+  }
+
+  /** Whether the mixer is frozen by `setPaused`. */
+  get paused(): boolean {
+    return this.animationPaused;
+  }
+
+  /** Time scale applied to every clip and overlay the stage plays. */
+  get speed(): number {
+    return this.playbackSpeed;
+  }
+
+  /** Change the playback speed, including the active clip's and overlays'. */
+  setSpeed(speed: number): void {
+    this.playbackSpeed = speed;
+    if (this.activeAction) this.activeAction.timeScale = speed;
+    this.overlayActions.forEach((overlay) => {
+      overlay.timeScale = speed;
+    });
+  }
+
+  /**
+   * Move the active clip to a time in seconds and pose the VRM there, even
+   * while paused. Running overlays move by the same amount, so they stay
+   * in step with the clip.
+   */
+  seek(time: number): void {
+    const action = this.activeAction;
+    if (!action || !this.mixer) return;
+
+    const target = THREE.MathUtils.clamp(time, 0, action.getClip().duration);
+    const offset = target - action.time;
+    action.time = target;
+    this.overlayActions.forEach((overlay) => {
+      overlay.time = THREE.MathUtils.clamp(
+        overlay.time + offset,
+        0,
+        overlay.getClip().duration
+      );
+    });
+    this.mixer.update(0);
+  }
+
+  /**
+   * Render the current pose and return it as a small JPEG data URL, e.g.
+   * for a thumbnail. Reads the canvas straight after rendering, so the
+   * drawing buffer needn't be preserved.
+   */
+  captureFrame(maxWidth = 160): string {
+    this.currentVrm?.update(0);
+    this.renderer.render(this.scene, this.camera);
+
+    const source = this.renderer.domElement;
+    const scale = Math.min(1, maxWidth / source.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(source.width * scale);
+    canvas.height = Math.round(source.height * scale);
+    canvas
+      .getContext("2d")
+      ?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  }
+
+  /** Whether clips play with left and right swapped. */
+  get mirrored(): boolean {
+    return this.mirroredPlayback;
+  }
+
+  /**
+   * Play clips with left and right swapped, e.g. to repeat an exercise on
+   * the other side. The active clip switches over in place: the new action
+   * carries on from the same time with the repetitions still to go, and
+   * `actionreplace` tells watchers of the old action to follow it.
+   */
+  setMirrored(mirrored: boolean): void {
+    if (mirrored === this.mirroredPlayback) return;
+    this.mirroredPlayback = mirrored;
+
+    const previousAction = this.activeAction;
+    if (!previousAction || !this.activeClip) return;
+    // Finished clips are held paused on their last frame
+    const finished = previousAction.paused;
+    const action = this.startClip(this.activeClip, {
+      repetitions: finished ? 1 : previousAction.repetitions - this.activeLoops,
+      crossfade: MIRROR_CROSSFADE,
+    });
+    action.time = previousAction.time;
+    action.paused = finished;
+    this.dispatchEvent({
+      type: "actionreplace",
+      previous: previousAction,
+      action,
+    });
+  }
+
+  /**
+   * Freeze or resume the animation mixer. The VRM itself keeps updating so
+   * spring bones settle and expression changes still show.
+   */
+  setPaused(paused: boolean): void {
+    this.animationPaused = paused;
+  }
+
+  /**
+   * Load a VRM model and swap it in for the current one once it's ready.
+   * Models loaded recently on this stage are reused rather than parsed
+   * again. Resolves with the VRM once it has been added to the scene;
+   * rejects with an AbortError if `signal` aborts or a later call to
+   * `loadVRM` supersedes this one.
+   */
+  async loadVRM(url: string, { signal }: LoadOptions = {}): Promise<VRM> {
+    const localFormat = getLocalFileFormat(url);
+    if (localFormat && localFormat !== "vrm") {
+      throw new Error(
+        `Failed to load VRM model: The file is a ${localFormat.toUpperCase()} animation, not a VRM model`
+      );
+    }
+
+    const request = ++this.vrmRequest;
+    const vrm = await abortable(this.parseVRM(url, signal), signal);
+    if (request !== this.vrmRequest || this.disposed) {
+      throw createAbortError(`Loading ${url} was superseded`);
+    }
+
+    // Clear previous model
+    if (this.currentVrm) {
+      this.scene.remove(this.currentVrm.scene as unknown as THREE.Object3D);
+      this.currentVrm = null;
+    }
+
+    // Reset animation data; retargeted clips stay cached per model
+    this.disposeMixer();
+    this.activeAction = null;
+    this.activeClip = null;
+    this.lastSource = null;
+    this.resetExpressions();
+
+    this.currentVrm = vrm;
+    // The previous model may now be the one to evict
+    this.trimVrmCache();
+
+    // A reused model keeps the pose it was last shown in
+    vrm.humanoid?.resetNormalizedPose();
+    vrm.expressionManager?.resetValues();
+    vrm.springBoneManager?.reset();
+
+    // Configure the VRM
+    vrm.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.castShadow = true;
+        object.receiveShadow = true;
+
+        if (object.material) {
+          if (Array.isArray(object.material)) {
+            object.material.forEach((mat) => {
+              if (mat.isMeshStandardMaterial) {
+                mat.envMapIntensity = 1;
+              }
+            });
+          } else if (object.material.isMeshStandardMaterial) {
+            object.material.envMapIntensity = 1;
+          }
+        }
+      }
+    });
+
+    // Face camera
+    vrm.scene.rotation.y = 0;
+
+    // Add to scene
+    if (!(vrm.scene instanceof THREE.Object3D))
+      throw new Error("VRM scene is not an Object3D");
+
+    this.scene.add(vrm.scene);
+
+    // VRM Animation lookAt tracks drive the eyes through this proxy
+    if (vrm.lookAt && !vrm.scene.getObjectByName("VRMLookAtQuaternionProxy")) {
+      const lookAtProxy = new VRMLookAtQuaternionProxy(vrm.lookAt);
+      lookAtProxy.name = "VRMLookAtQuaternionProxy";
+      vrm.scene.add(lookAtProxy);
+    }
+
+    // Center model
+    vrm.scene.position.set(0, 0, 0);
+    const box = new THREE.Box3().setFromObject(vrm.scene);
+    const center = box.getCenter(new THREE.Vector3());
+
+    vrm.scene.position.x = vrm.scene.position.x - center.x;
+    vrm.scene.position.z = vrm.scene.position.z - center.z;
+
+    console.log("VRM loaded successfully", vrm);
+
+    // Log available expressions
+    if (vrm.expressionManager) {
+      console.log(
+        "Available expressions:",
+        Object.keys(vrm.expressionManager.expressions)
+      );
+    }
+
+    // Log bones for debugging
+    console.log("VRM humanoid bones:", vrm.humanoid);
+
+    // Print all bone nodes for mapping purposes
+    const boneNodes: Record<string, string> = {};
+    if (vrm.humanoid) {
+      Object.keys(vrm.humanoid.humanBones).forEach((boneName) => {
+        const bone = vrm.humanoid?.getRawBoneNode(boneName as VRMHumanBoneName);
+        if (bone) {
+          boneNodes[boneName] = bone.name;
+        }
+      });
+      console.log("Available VRM bones for mapping:", boneNodes);
+    }
+
+    this.dispatchEvent({ type: "load", vrm });
+    return vrm;
+  }
+
+  /**
+   * Load an animation file and play it on the current VRM.
+   * The source rig's bone map profile is detected unless one is given.
+   * Resolves with the started action.
+   */
+  async playAnimation(
+    animationUrl: string,
+    { signal, ...options }: PlayAnimationOptions = {}
+  ): Promise<THREE.AnimationAction> {
+    if (!this.currentVrm) throw new Error("No VRM loaded");
+
+    // Rejects with an AbortError if aborted, stopped or superseded meanwhile
+    const request = ++this.animationRequest;
+    const source = await abortable(this.loadAnimation(animationUrl), signal);
+    if (request !== this.animationRequest || this.disposed) {
+      throw createAbortError(`Playing ${animationUrl} was superseded`);
+    }
+    return this.playSource(source, options);
+  }
+
+  /**
+   * Fetch and parse an animation file without playing it.
+   * Files are only fetched once; later calls share the parsed result.
+   */
+  loadAnimation(animationUrl: string): Promise<AnimationSource> {
+    let source = this.sourceCache.get(animationUrl);
+    if (!source) {
+      source = loadAnimationSource(animationUrl).catch((error) => {
+        this.sourceCache.delete(animationUrl);
+        console.error("Error loading animation:", error);
+        throw new Error(`Failed to load animation: ${getErrorMessage(error)}`);
+      });
+      this.sourceCache.set(animationUrl, source);
+    }
+    return source;
+  }
+
+  /** Load an animation file and retarget it onto the current VRM. */
+  async prepareAnimation(
+    animationUrl: string,
+    profile?: BoneMapProfile
+  ): Promise<THREE.AnimationClip> {
+    const source = await this.loadAnimation(animationUrl);
+    return this.prepareClip(source, profile).clip;
+  }
+
+  /**
+   * Play a clip that targets the current VRM, crossfading from whatever
+   * was playing. Finite repetitions hold the last frame when done. The
+   * clip is mirrored first while `mirrored` is set.
+   */
+  playClip(
+    sourceClip: THREE.AnimationClip,
+    options: PlayClipOptions = {}
+  ): THREE.AnimationAction {
+    const action = this.startClip(sourceClip, options);
+    this.dispatchEvent({ type: "actionstart", action });
+    return action;
+  }
+
+  /**
+   * Play a clip once on top of the active animation without fading it out,
+   * e.g. an expression track. It runs on the same mixer clock, so pausing
+   * the stage holds it, and `seek` and `setSpeed` move it along with the
+   * active clip. Stop it early with `stopOverlay`.
+   */
+  playOverlay(clip: THREE.AnimationClip): THREE.AnimationAction {
+    const vrm = this.currentVrm;
+    if (!vrm) throw new Error("No VRM loaded");
+
+    const action = this.getMixer(vrm).clipAction(clip);
+    action.setLoop(THREE.LoopOnce, 1);
+    action.timeScale = this.playbackSpeed;
+    action.reset().play();
+    this.overlayActions.add(action);
+    return action;
+  }
+
+  /** Stop an action started by `playOverlay`. */
+  stopOverlay(action: THREE.AnimationAction): void {
+    action.stop();
+    this.overlayActions.delete(action);
+  }
+
+  /**
+   * Retarget the last loaded animation with a different bone map profile
+   * and play it again, without refetching the file.
+   */
+  remapAnimation(profile: BoneMapProfile): THREE.AnimationAction {
+    if (!this.lastSource) throw new Error("No animation loaded");
+
+    return this.playSource(this.lastSource, { profile });
+  }
+
+  /** Fade out the currently playing animation. */
+  stopAnimation(): void {
+    // Animations still loading shouldn't start after this
+    this.animationRequest++;
+    const action = this.activeAction;
+    if (action) {
+      action.fadeOut(DEFAULT_CROSSFADE);
+      this.activeAction = null;
+      this.activeClip = null;
+      this.dispatchEvent({ type: "actionstop", action });
+    }
+  }
+
+  /**
+   * Call `onEnd(true)` once an action started by `playClip` finishes, or
+   * `onEnd(false)` if the avatar moves on first: another clip starts, the
+   * action is stopped or a new model loads. Follows the action when
+   * mirroring replaces it. Returns a function that stops watching.
+   */
+  watchAction(
+    action: THREE.AnimationAction,
+    onEnd: (finished: boolean) => void
+  ): () => void {
+    let watched = action;
+    const handleFinished = ({
+      action,
+    }: AvatarStageEventMap["actionfinished"]): void => {
+      if (action === watched) end(true);
+    };
+    const handleReplace = ({
+      previous,
+      action,
+    }: AvatarStageEventMap["actionreplace"]): void => {
+      if (previous === watched) watched = action;
+    };
+    const handleStop = ({
+      action,
+    }: AvatarStageEventMap["actionstop"]): void => {
+      if (action === watched) end(false);
+    };
+    const handleTakeover = (): void => end(false);
+
+    const unwatch = (): void => {
+      this.removeEventListener("actionfinished", handleFinished);
+      this.removeEventListener("actionreplace", handleReplace);
+      this.removeEventListener("actionstop", handleStop);
+      this.removeEventListener("actionstart", handleTakeover);
+      this.removeEventListener("load", handleTakeover);
+    };
+    const end = (finished: boolean): void => {
+      unwatch();
+      onEnd(finished);
+    };
+    this.addEventListener("actionfinished", handleFinished);
+    this.addEventListener("actionreplace", handleReplace);
+    this.addEventListener("actionstop", handleStop);
+    this.addEventListener("actionstart", handleTakeover);
+    this.addEventListener("load", handleTakeover);
+    return unwatch;
+  }
+
+  /** Show a single expression, blending every other one out. */
+  setExpression(
+    expression: string,
+    weight = this.config.expressionWeight,
+    options: ExpressionTransitionOptions = {}
+  ): void {
+    if (!this.currentVrm || !this.currentVrm.expressionManager) {
+      console.warn("No VRM loaded or no expression manager available");
+      return;
+    }
+
+    this.setExpressionWeights(
+      { ...this.getZeroWeights(), [expression]: weight },
+      options
+    );
+
+    console.log(`Set expression: ${expression} with weight ${weight}`);
+  }
+
+  /** Blend one expression layer, leaving the others as they are. */
+  setExpressionWeight(
+    expression: string,
+    weight: number,
+    options: ExpressionTransitionOptions = {}
+  ): void {
+    this.setExpressionWeights({ [expression]: weight }, options);
+  }
+
+  /**
+   * Blend several expression layers at once, e.g. `{ happy: 0.6, aa: 0.3 }`.
+   * Expressions not listed keep their current weight.
+   */
+  setExpressionWeights(
+    weights: Record<string, number>,
+    { duration = 0, easing = "easeInOut" }: ExpressionTransitionOptions = {}
+  ): void {
+    const expressionManager = this.currentVrm?.expressionManager;
+    if (!expressionManager) return;
+
+    Object.entries(weights).forEach(([expression, value]) => {
+      if (!expressionManager.getExpression(expression)) return;
+
+      const to = THREE.MathUtils.clamp(value, 0, 1);
+      if (to > 0) {
+        this.expressionLayers.set(expression, to);
+      } else {
+        this.expressionLayers.delete(expression);
+      }
+
+      const from = expressionManager.getValue(expression) ?? 0;
+      if (duration > 0 && from !== to) {
+        this.expressionTransitions.set(expression, {
+          from,
+          to,
+          elapsed: 0,
+          duration,
+          easing,
+        });
+      } else {
+        this.expressionTransitions.delete(expression);
+        expressionManager.setValue(expression, to);
+      }
+    });
+
+    this.emitExpressionWeights();
+  }
+
+  /** Blend every expression back to zero. */
+  resetExpressions(options: ExpressionTransitionOptions = {}): void {
+    if (this.currentVrm?.expressionManager) {
+      this.setExpressionWeights(this.getZeroWeights(), options);
+    } else {
+      this.expressionLayers.clear();
+      this.expressionTransitions.clear();
+      this.emitExpressionWeights();
+    }
+  }
+
+  /**
+   * Drop cached models other than the current one, and parsed animation
+   * files, releasing their GPU resources.
+   */
+  clearCaches(): void {
+    this.vrmCache.forEach((vrm, url) => {
+      if (vrm === this.currentVrm) return;
+      this.vrmCache.delete(url);
+      VRMUtils.deepDispose(vrm.scene);
+    });
+    this.sourceCache.clear();
+  }
+
+  /** Renderer memory and object counts, e.g. for a debug overlay. */
+  getStats(): StageStats {
+    const { memory, render, programs } = this.renderer.info;
+    let sceneObjects = 0;
+    this.scene.traverse(() => {
+      sceneObjects++;
+    });
+    return {
+      geometries: memory.geometries,
+      textures: memory.textures,
+      programs: programs?.length ?? 0,
+      drawCalls: render.calls,
+      triangles: render.triangles,
+      sceneObjects,
+      cachedModels: this.vrmCache.size,
+      cachedAnimations: this.sourceCache.size,
+    };
+  }
+
+  /**
+   * Stop rendering and release the models, mixer, renderer, controls and
+   * listeners. Loads still in flight reject and are released on arrival.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.renderer.setAnimationLoop(null);
+    this.resizeObserver.disconnect();
+    this.disposeMixer();
+
+    // Free GPU resources while the renderer can still release them
+    if (this.currentVrm) {
+      this.scene.remove(this.currentVrm.scene as unknown as THREE.Object3D);
+      this.currentVrm = null;
+    }
+    this.vrmCache.forEach((vrm) => VRMUtils.deepDispose(vrm.scene));
+    this.vrmCache.clear();
+    this.vrmLoads.forEach(({ load }) =>
+      load.then(
+        (vrm) => VRMUtils.deepDispose(vrm.scene),
+        () => {}
+      )
+    );
+    this.sourceCache.clear();
+    this.scene.traverse((object) => {
+      if (object instanceof THREE.Light) object.dispose();
+    });
+    VRMUtils.deepDispose(this.scene);
+    this.scene.clear();
+
+    this.renderer.dispose();
+    // Hand the WebGL context back now; browsers only allow a few at once
+    this.renderer.forceContextLoss();
+    this.cameraDirector.dispose();
+    this.controls.dispose();
+    if (this.renderer.domElement.parentElement === this.container) {
+      this.container.removeChild(this.renderer.domElement);
+    }
+  }
+
+  private getZeroWeights(): Record<string, number> {
+    return Object.fromEntries(
+      [...this.getExpressionNames(), ...this.expressionLayers.keys()].map(
+        (expression) => [expression, 0]
+      )
+    );
+  }
+
+  private emitExpressionWeights(): void {
+    let strongest = "";
+    let strongestWeight = 0;
+    this.expressionLayers.forEach((weight, expression) => {
+      if (weight > strongestWeight) {
+        strongest = expression;
+        strongestWeight = weight;
+      }
+    });
+    this.dispatchEvent({
+      type: "expressionweightschange",
+      weights: this.expressionWeights,
+    });
+
+    if (this.activeExpression === strongest) return;
+    this.activeExpression = strongest;
+    this.dispatchEvent({ type: "expressionchange", expression: strongest });
+  }
+
+  // Only expressions mid-blend are written, so other writers keep control
+  private updateExpressionTransitions(delta: number): void {
+    const expressionManager = this.currentVrm?.expressionManager;
+    if (!expressionManager) return;
+
+    this.expressionTransitions.forEach((transition, expression) => {
+      transition.elapsed += delta;
+      const t = Math.min(1, transition.elapsed / transition.duration);
+      const eased = EXPRESSION_EASINGS[transition.easing](t);
+      expressionManager.setValue(
+        expression,
+        THREE.MathUtils.lerp(transition.from, transition.to, eased)
+      );
+      if (t >= 1) this.expressionTransitions.delete(expression);
+    });
+  }
+
+  // Make a clip the active action without announcing it
+  private startClip(
+    sourceClip: THREE.AnimationClip,
+    { repetitions = Infinity, crossfade = DEFAULT_CROSSFADE }: PlayClipOptions
+  ): THREE.AnimationAction {
+    const vrm = this.currentVrm;
+    if (!vrm) throw new Error("No VRM loaded");
+
+    const clip = this.mirroredPlayback
+      ? this.getMirroredClip(sourceClip, vrm)
+      : sourceClip;
+    const mixer = this.getMixer(vrm);
+    const action = mixer.clipAction(clip);
+    const previousAction = this.activeAction;
+
+    // Clear previous animation
+    if (previousAction && previousAction !== action) {
+      previousAction.fadeOut(crossfade);
+    }
+
+    // Play the animation
+    action.clampWhenFinished = Number.isFinite(repetitions);
+    action.setLoop(THREE.LoopRepeat, repetitions);
+    action.timeScale = this.playbackSpeed;
+    action.reset().fadeIn(crossfade).play();
+    this.activeAction = action;
+    this.activeClip = sourceClip;
+    this.activeLoops = 0;
+    return action;
+  }
+
+  private getMirroredClip(
+    clip: THREE.AnimationClip,
+    vrm: VRM
+  ): THREE.AnimationClip {
+    let mirrored = this.mirroredClips.get(clip);
+    if (!mirrored) {
+      mirrored = mirrorClip(clip, vrm);
+      this.mirroredClips.set(clip, mirrored);
+    }
+    return mirrored;
+  }
+
+  private getMixer(vrm: VRM): THREE.AnimationMixer {
+    // Create animation mixer if it doesn't exist
+    if (!this.mixer) {
+      const mixer = new THREE.AnimationMixer(
+        vrm.scene as unknown as THREE.Object3D
+      );
+      mixer.addEventListener("loop", ({ action, loopDelta }) => {
+        if (action === this.activeAction) this.activeLoops += loopDelta;
+        this.dispatchEvent({ type: "actionloop", action, loopDelta });
+      });
+      mixer.addEventListener("finished", ({ action }) => {
+        this.overlayActions.delete(action);
+        this.dispatchEvent({ type: "actionfinished", action });
+      });
+      this.mixer = mixer;
+    }
+    return this.mixer;
+  }
+
+  // Parse a model file, or reuse the copy parsed earlier from the same URL.
+  // The download is aborted once every caller that shares it has aborted.
+  private parseVRM(url: string, signal?: AbortSignal): Promise<VRM> {
+    const cached = this.vrmCache.get(url);
+    if (cached) {
+      // Most recently used last
+      this.vrmCache.delete(url);
+      this.vrmCache.set(url, cached);
+      return Promise.resolve(cached);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError("The load was aborted"));
+    }
+
+    const pending = this.vrmLoads.get(url) ?? this.startVrmLoad(url);
+    pending.waiters++;
+    if (signal) {
+      const handleAbort = (): void => {
+        if (--pending.waiters > 0) return;
+        // Later calls start afresh rather than join the aborted load
+        if (this.vrmLoads.get(url) === pending) this.vrmLoads.delete(url);
+        pending.controller.abort();
+      };
+      signal.addEventListener("abort", handleAbort, { once: true });
+      const release = () => signal.removeEventListener("abort", handleAbort);
+      pending.load.then(release, release);
+    }
+    return pending.load;
+  }
+
+  private startVrmLoad(url: string): PendingVrmLoad {
+    const controller = new AbortController();
+    const loader = new GLTFLoader();
+    // Register VRMLoaderPlugin for GLTFLoader
+    loader.register(
+      (parser) => new VRMLoaderPlugin(parser) as unknown as GLTFLoaderPlugin
+    );
+    const load = loadAsset(
+      url,
+      (bytes, path) => loader.parseAsync(bytes, path),
+      controller.signal
+    )
+      .catch((error) => {
+        if (isAbortError(error)) throw error;
+        console.error("Error loading VRM:", error);
+        throw new Error(`Failed to load VRM model: ${getErrorMessage(error)}`);
+      })
+      .then((gltf) => {
+        const vrm = gltf.userData.vrm as VRM | undefined;
+        if (!vrm) {
+          VRMUtils.deepDispose(gltf.scene);
+          throw new Error(
+            "Failed to load VRM model: No VRM data found. Plain glTF/GLB models need converting to VRM first"
+          );
+        }
+        return vrm;
+      })
+      .finally(() => {
+        if (this.vrmLoads.get(url) === pending) this.vrmLoads.delete(url);
+      });
+
+    const pending: PendingVrmLoad = { load, controller, waiters: 0 };
+    this.vrmLoads.set(url, pending);
+    load.then(
+      (vrm) => {
+        // A disposed stage releases late arrivals itself
+        if (this.disposed) return;
+        this.vrmCache.set(url, vrm);
+        this.trimVrmCache();
+      },
+      () => {}
+    );
+    return pending;
+  }
+
+  // Evict the least recently used models beyond the cache size, never the
+  // one on stage, releasing their GPU resources
+  private trimVrmCache(): void {
+    for (const [url, vrm] of this.vrmCache) {
+      if (this.vrmCache.size <= VRM_CACHE_SIZE) return;
+      if (vrm === this.currentVrm) continue;
+      this.vrmCache.delete(url);
+      VRMUtils.deepDispose(vrm.scene);
+    }
+  }
+
+  private disposeMixer(): void {
+    if (!this.mixer) return;
+    this.mixer.stopAllAction();
+    this.overlayActions.clear();
+    this.mixer.uncacheRoot(this.mixer.getRoot());
+    this.mixer = null;
+  }
+
+  private prepareClip(
+    source: AnimationSource,
+    requestedProfile?: BoneMapProfile
+  ): PreparedClip {
+    const vrm = this.currentVrm;
+    if (!vrm) throw new Error("VRM was unloaded while the animation loaded");
+
+    let clips = this.clipCache.get(vrm);
+    if (!clips) {
+      clips = new WeakMap();
+      this.clipCache.set(vrm, clips);
+    }
+    const cached = requestedProfile ? null : clips.get(source);
+    if (cached) return cached;
+
+    let prepared: PreparedClip;
+    try {
+      if (source.kind === "vrma") {
+        // Humanoid, expression and lookAt tracks bind to this VRM directly
+        if (requestedProfile) {
+          throw new Error("VRM Animation clips do not use bone map profiles");
+        }
+        const clip = createVRMAnimationClip(source.animation, vrm);
+        prepared = { clip, nodeNames: [], profile: null };
+      } else if (source.kind === "pose") {
+        // Landmarks are solved straight onto the humanoid bones
+        if (requestedProfile) {
+          throw new Error("Pose recordings do not use bone map profiles");
+        }
+        const clip = solvePoseClip(source.recording, vrm);
+        prepared = { clip, nodeNames: [], profile: null };
+      } else {
+        const nodeNames = getTrackNodeNames(source.clip);
+        const profile =
+          requestedProfile ??
+          detectBoneMapProfile(nodeNames) ??
+          VRM_HUMANOID_PROFILE;
+        const clip = retargetClip(
+          source.clip,
+          source.root,
+          vrm,
+          createBoneResolver(profile)
+        );
+        prepared = { clip, nodeNames, profile };
+      }
+      // Name clips after their file so listeners can tell them apart
+      prepared.clip.name = source.url;
+    } catch (err) {
+      console.error("Error applying animation:", err);
+      throw new Error(`Error applying animation: ${getErrorMessage(err)}`);
+    }
+
+    if (!requestedProfile) clips.set(source, prepared);
+    return prepared;
+  }
+
+  private playSource(
+    source: AnimationSource,
+    { profile: requestedProfile, ...playOptions }: PlayAnimationOptions
+  ): THREE.AnimationAction {
+    const { clip, nodeNames, profile } = this.prepareClip(
+      source,
+      requestedProfile
+    );
+    const action = this.playClip(clip, playOptions);
+    this.lastSource = source;
+
+    console.log(`Playing animation: ${source.url}`);
+    this.dispatchEvent({
+      type: "animationload",
+      url: source.url,
+      nodeNames,
+      profile,
+    });
+    return action;
+  }
+
+  private setupLights(): void {
+    const { hemisphereLight, directionalLight, ambientLight, scene } = this;
+
+    hemisphereLight.position.set(0, 50, 0);
+    scene.add(hemisphereLight);
+
+    directionalLight.castShadow = true;
+    directionalLight.shadow.camera.near = 0.5;
+    directionalLight.shadow.camera.far = 50;
+    directionalLight.shadow.camera.left = -5;
+    directionalLight.shadow.camera.right = 5;
+    directionalLight.shadow.camera.top = 5;
+    directionalLight.shadow.camera.bottom = -5;
+    scene.add(directionalLight);
+
+    scene.add(ambientLight);
+  }
+
+  // Colours, lights, materials, shadows and the camera lens and controls
+  private applyAppearance(config: RenderConfig): void {
+    this.scene.background = new THREE.Color(config.backgroundColor);
+
+    this.hemisphereLight.color.set(config.hemisphereLight.skyColor);
+    this.hemisphereLight.groundColor.set(config.hemisphereLight.groundColor);
+    this.hemisphereLight.intensity = config.hemisphereLight.intensity;
+
+    const { directionalLight } = this;
+    directionalLight.color.set(config.directionalLight.color);
+    directionalLight.intensity = config.directionalLight.intensity;
+    directionalLight.position.set(
+      config.directionalLight.position.x,
+      config.directionalLight.position.y,
+      config.directionalLight.position.z
+    );
+    directionalLight.shadow.bias = config.shadowBias;
+    const { shadowMapSize } = config.directionalLight;
+    if (directionalLight.shadow.mapSize.x !== shadowMapSize) {
+      directionalLight.shadow.mapSize.set(shadowMapSize, shadowMapSize);
+      // Reallocated at the new size on the next render
+      directionalLight.shadow.map?.dispose();
+      directionalLight.shadow.map = null;
+    }
+
+    this.ambientLight.color.set(config.ambientLight.color);
+    this.ambientLight.intensity = config.ambientLight.intensity;
+
+    this.wallMaterial.color.set(config.wallMaterial.color);
+    this.wallMaterial.roughness = config.wallMaterial.roughness;
+    this.wallMaterial.metalness = config.wallMaterial.metalness;
+
+    this.camera.fov = config.camera.fov;
+    this.camera.near = config.camera.near;
+    this.camera.far = config.camera.far;
+    this.camera.updateProjectionMatrix();
+
+    // Disable manual rotation and zoom
+    const locked = config.disableCameraRotation;
+    this.controls.enableRotate = !locked;
+    this.controls.enableZoom = !locked;
+    this.controls.enablePan = !locked;
+  }
+
+  private setupRoom(): void {
+    const { wallMaterial, scene } = this;
+
+    const floorGeometry = new THREE.PlaneGeometry(20, 20);
+
+    const floor = new THREE.Mesh(floorGeometry, wallMaterial);
+    floor.rotation.x = -Math.PI / 2;
+    floor.receiveShadow = true;
+    scene.add(floor);
+
+    const backWall = new THREE.Mesh(floorGeometry, wallMaterial);
+    backWall.position.z = -10;
+    backWall.position.y = 10;
+    backWall.receiveShadow = true;
+    scene.add(backWall);
+
+    const leftWall = new THREE.Mesh(floorGeometry, wallMaterial);
+    leftWall.position.x = -10;
+    leftWall.position.y = 10;
+    leftWall.rotation.y = Math.PI / 2;
+    leftWall.receiveShadow = true;
+    scene.add(leftWall);
+
+    const rightWall = new THREE.Mesh(floorGeometry, wallMaterial);
+    rightWall.position.x = 10;
+    rightWall.position.y = 10;
+    rightWall.rotation.y = -Math.PI / 2;
+    rightWall.receiveShadow = true;
+    scene.add(rightWall);
+  }
+
+  private getViewportSize(): { width: number; height: number } {
+    return {
+      width: this.container.clientWidth || window.innerWidth,
+      height: this.container.clientHeight || window.innerHeight,
+    };
+  }
+
+  private animate = (): void => {
+    const delta = this.clock.getDelta();
+
+    // Update animation mixer first; it poses the normalized humanoid bones
+    if (this.mixer && !this.animationPaused) {
+      this.mixer.update(delta);
+    }
+
+    if (this.currentVrm) {
+      this.updateExpressionTransitions(delta);
+      this.lookAt.update(this.currentVrm, delta);
+
+      // Let add-on layers adjust the pose and expressions on top of the mixer
+      this.dispatchEvent({ type: "update", vrm: this.currentVrm, delta });
+
+      // Update VRM, copying the normalized pose onto the raw bones
+      this.currentVrm.update(delta);
+    }
+
+    this.cameraDirector.update(this.currentVrm, delta);
+    this.controls.update();
+    this.renderer.render(this.scene, this.camera);
+  };
+
+  // Match the renderer and camera to the container
+  private handleResize = (): void => {
+    const { width, height } = this.getViewportSize();
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(width, height);
+  };
+}
@@ -0,0 +1,329 @@
+import * as THREE from "three";
+import { VRMHumanBoneList, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { getErrorMessage } from "./errors";
+
+export type BoneResolver = (nodeName: string) => VRMHumanBoneName | null;
+
+/**
+ * A named mapping from a source rig's joint names to VRM humanoid bones.
+ * Profiles are plain JSON so user-edited ones can be persisted.
+ */
+export type BoneMapProfile = {
+  id: string;
+  name: string;
+  // Regex source stripped from node names before lookup, e.g. "^mixamorig\\d*"
+  prefix?: string;
+  bones: Record<string, VRMHumanBoneName>;
+  // Saved from the mapping editor rather than built in
+  custom?: boolean;
+};
+
+// Builds the finger entries shared by rigs that number joints 1-3 per finger
+const fingerBones = (
+  name: (finger: string, side: "left" | "right", joint: number) => string
+): Record<string, VRMHumanBoneName> => {
+  const bones: Record<string, VRMHumanBoneName> = {};
+  const fingers = {
+    thumb: ["ThumbMetacarpal", "ThumbProximal", "ThumbDistal"],
+    index: ["IndexProximal", "IndexIntermediate", "IndexDistal"],
+    middle: ["MiddleProximal", "MiddleIntermediate", "MiddleDistal"],
+    ring: ["RingProximal", "RingIntermediate", "RingDistal"],
+    pinky: ["LittleProximal", "LittleIntermediate", "LittleDistal"],
+  };
+  (["left", "right"] as const).forEach((side) => {
+    Object.entries(fingers).forEach(([finger, joints]) => {
+      joints.forEach((joint, index) => {
+        bones[name(finger, side, index + 1)] =
+          `${side}${joint}` as VRMHumanBoneName;
+      });
+    });
+  });
+  return bones;
+};
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+export const MIXAMO_PROFILE: BoneMapProfile = {
+  id: "mixamo",
+  name: "Mixamo",
+  prefix: "^mixamorig\\d*_?",
+  bones: {
+    Hips: "hips",
+    Spine: "spine",
+    Spine1: "chest",
+    Spine2: "upperChest",
+    Neck: "neck",
+    Head: "head",
+    LeftShoulder: "leftShoulder",
+    LeftArm: "leftUpperArm",
+    LeftForeArm: "leftLowerArm",
+    LeftHand: "leftHand",
+    RightShoulder: "rightShoulder",
+    RightArm: "rightUpperArm",
+    RightForeArm: "rightLowerArm",
+    RightHand: "rightHand",
+    LeftUpLeg: "leftUpperLeg",
+    LeftLeg: "leftLowerLeg",
+    LeftFoot: "leftFoot",
+    LeftToeBase: "leftToes",
+    RightUpLeg: "rightUpperLeg",
+    RightLeg: "rightLowerLeg",
+    RightFoot: "rightFoot",
+    RightToeBase: "rightToes",
+    ...fingerBones(
+      (finger, side, joint) =>
+        `${capitalize(side)}Hand${capitalize(finger)}${joint}`
+    ),
+  },
+};
+
+export const UNREAL_MANNEQUIN_PROFILE: BoneMapProfile = {
+  id: "unreal-mannequin",
+  name: "Unreal Mannequin",
+  bones: {
+    pelvis: "hips",
+    spine_01: "spine",
+    spine_02: "chest",
+    spine_03: "upperChest",
+    neck_01: "neck",
+    head: "head",
+    clavicle_l: "leftShoulder",
+    upperarm_l: "leftUpperArm",
+    lowerarm_l: "leftLowerArm",
+    hand_l: "leftHand",
+    clavicle_r: "rightShoulder",
+    upperarm_r: "rightUpperArm",
+    lowerarm_r: "rightLowerArm",
+    hand_r: "rightHand",
+    thigh_l: "leftUpperLeg",
+    calf_l: "leftLowerLeg",
+    foot_l: "leftFoot",
+    ball_l: "leftToes",
+    thigh_r: "rightUpperLeg",
+    calf_r: "rightLowerLeg",
+    foot_r: "rightFoot",
+    ball_r: "rightToes",
+    ...fingerBones(
+      (finger, side, joint) => `${finger}_0${joint}_${side.charAt(0)}`
+    ),
+  },
+};
+
+export const BLENDER_RIGIFY_PROFILE: BoneMapProfile = {
+  id: "blender-rigify",
+  name: "Blender Rigify",
+  // Deform bones are exported with a DEF- prefix, originals with ORG-
+  prefix: "^(DEF|ORG)-",
+  bones: {
+    spine: "hips",
+    "spine.001": "spine",
+    "spine.002": "chest",
+    "spine.003": "upperChest",
+    "spine.004": "neck",
+    "spine.006": "head",
+    "shoulder.L": "leftShoulder",
+    "upper_arm.L": "leftUpperArm",
+    "forearm.L": "leftLowerArm",
+    "hand.L": "leftHand",
+    "shoulder.R": "rightShoulder",
+    "upper_arm.R": "rightUpperArm",
+    "forearm.R": "rightLowerArm",
+    "hand.R": "rightHand",
+    "thigh.L": "leftUpperLeg",
+    "shin.L": "leftLowerLeg",
+    "foot.L": "leftFoot",
+    "toe.L": "leftToes",
+    "thigh.R": "rightUpperLeg",
+    "shin.R": "rightLowerLeg",
+    "foot.R": "rightFoot",
+    "toe.R": "rightToes",
+    ...fingerBones(
+      (finger, side, joint) =>
+        `${finger === "thumb" ? "thumb" : `f_${finger}`}.0${joint}.${side
+          .charAt(0)
+          .toUpperCase()}`
+    ),
+  },
+};
+
+// Joint names used by the CMU Graphics Lab motion capture database BVH exports
+export const CMU_BVH_PROFILE: BoneMapProfile = {
+  id: "cmu-bvh",
+  name: "CMU BVH",
+  bones: {
+    Hips: "hips",
+    LowerBack: "spine",
+    Spine: "chest",
+    Spine1: "upperChest",
+    Neck: "neck",
+    Head: "head",
+    LeftShoulder: "leftShoulder",
+    LeftArm: "leftUpperArm",
+    LeftForeArm: "leftLowerArm",
+    LeftHand: "leftHand",
+    LThumb: "leftThumbProximal",
+    RightShoulder: "rightShoulder",
+    RightArm: "rightUpperArm",
+    RightForeArm: "rightLowerArm",
+    RightHand: "rightHand",
+    RThumb: "rightThumbProximal",
+    LeftUpLeg: "leftUpperLeg",
+    LeftLeg: "leftLowerLeg",
+    LeftFoot: "leftFoot",
+    LeftToeBase: "leftToes",
+    RightUpLeg: "rightUpperLeg",
+    RightLeg: "rightLowerLeg",
+    RightFoot: "rightFoot",
+    RightToeBase: "rightToes",
+  },
+};
+
+// Rigs whose joints are already named after VRM humanoid bones
+export const VRM_HUMANOID_PROFILE: BoneMapProfile = {
+  id: "vrm-humanoid",
+  name: "VRM Humanoid",
+  bones: Object.fromEntries(
+    Object.values(VRMHumanBoneName).map((boneName) => [boneName, boneName])
+  ),
+};
+
+export const BUILT_IN_BONE_MAP_PROFILES: BoneMapProfile[] = [
+  MIXAMO_PROFILE,
+  UNREAL_MANNEQUIN_PROFILE,
+  BLENDER_RIGIFY_PROFILE,
+  CMU_BVH_PROFILE,
+  VRM_HUMANOID_PROFILE,
+];
+
+// Loaders sanitize node names the same way, dropping ".", ":" and "/"
+const normalizeNodeName = (name: string): string =>
+  THREE.PropertyBinding.sanitizeNodeName(name).toLowerCase();
+
+/** Build a lookup function for a profile's joint names. */
+export const createBoneResolver = (profile: BoneMapProfile): BoneResolver => {
+  const lookup = new Map<string, VRMHumanBoneName>();
+  Object.entries(profile.bones).forEach(([nodeName, boneName]) => {
+    lookup.set(normalizeNodeName(nodeName), boneName);
+  });
+  const prefix = profile.prefix ? new RegExp(profile.prefix, "i") : null;
+
+  return (nodeName) => {
+    const normalized = normalizeNodeName(nodeName);
+    const exact = lookup.get(normalized);
+    if (exact) return exact;
+    if (!prefix) return null;
+    return lookup.get(normalizeNodeName(nodeName.replace(prefix, ""))) ?? null;
+  };
+};
+
+/** Whether a string from a file or the UI names a VRM humanoid bone. */
+export const isHumanBoneName = (name: string): name is VRMHumanBoneName =>
+  (VRMHumanBoneList as string[]).includes(name);
+
+/** Node names animated by a clip, in track order. */
+export const getTrackNodeNames = (clip: THREE.AnimationClip): string[] => {
+  const names = new Set<string>();
+  clip.tracks.forEach((track) => {
+    const separator = track.name.lastIndexOf(".");
+    if (separator > 0) names.add(track.name.slice(0, separator));
+  });
+  return [...names];
+};
+
+/**
+ * Pick the profile that maps the most distinct humanoid bones from the
+ * given node names. Earlier profiles win ties.
+ */
+export const detectBoneMapProfile = (
+  nodeNames: string[],
+  profiles: BoneMapProfile[] = getBoneMapProfiles()
+): BoneMapProfile | null => {
+  let best: BoneMapProfile | null = null;
+  let bestScore = 0;
+
+  profiles.forEach((profile) => {
+    const resolve = createBoneResolver(profile);
+    const mapped = new Set<VRMHumanBoneName>();
+    nodeNames.forEach((nodeName) => {
+      const boneName = resolve(nodeName);
+      if (boneName) mapped.add(boneName);
+    });
+    if (mapped.size > bestScore) {
+      best = profile;
+      bestScore = mapped.size;
+    }
+  });
+
+  return best;
+};
+
+const CUSTOM_PROFILES_STORAGE_KEY = "mr-rehab-3d:bone-map-profiles";
+
+const isValidPattern = (source: string): boolean => {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Stored profiles may come from older versions or hand edits
+const isBoneMapProfile = (value: unknown): value is BoneMapProfile => {
+  if (typeof value !== "object" || value === null) return false;
+  const { id, name, prefix, bones } = value as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    typeof name === "string" &&
+    (prefix === undefined ||
+      (typeof prefix === "string" && isValidPattern(prefix))) &&
+    typeof bones === "object" &&
+    bones !== null &&
+    Object.values(bones).every((bone) =>
+      VRMHumanBoneList.includes(bone as VRMHumanBoneName)
+    )
+  );
+};
+
+/** Profiles saved from the mapping editor on this device, minus broken ones. */
+export const loadCustomBoneMapProfiles = (): BoneMapProfile[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(CUSTOM_PROFILES_STORAGE_KEY);
+    const profiles: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(profiles)) return [];
+    const valid = profiles.filter(isBoneMapProfile);
+    if (valid.length < profiles.length) {
+      console.warn(
+        `Ignoring ${profiles.length - valid.length} invalid bone map profiles`
+      );
+    }
+    return valid;
+  } catch (e) {
+    console.warn("Ignoring unreadable bone map profiles:", e);
+    return [];
+  }
+};
+
+/** Save a profile, replacing any saved profile with the same id. */
+export const saveCustomBoneMapProfile = (profile: BoneMapProfile): void => {
+  const profiles = loadCustomBoneMapProfiles().filter(
+    (existing) => existing.id !== profile.id
+  );
+  profiles.push({ ...profile, custom: true });
+  try {
+    window.localStorage.setItem(
+      CUSTOM_PROFILES_STORAGE_KEY,
+      JSON.stringify(profiles)
+    );
+  } catch (err) {
+    throw new Error(`Failed to save bone map profile: ${getErrorMessage(err)}`);
+  }
+};
+
+/** Custom profiles first, so a saved fix wins detection over its base. */
+export const getBoneMapProfiles = (): BoneMapProfile[] => [
+  ...loadCustomBoneMapProfiles(),
+  ...BUILT_IN_BONE_MAP_PROFILES,
+];
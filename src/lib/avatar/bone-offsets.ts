@@ -0,0 +1,40 @@
+import * as THREE from "three";
+
+// The pose a bone would have without the offset, and what was written
+type BoneOffsetState = {
+  base: THREE.Quaternion;
+  applied: THREE.Quaternion;
+};
+
+/**
+ * Applies per-frame rotation offsets on top of whatever the mixer wrote.
+ * A bone the mixer left alone since the last frame still holds the previous
+ * offset, so it is restored to its base pose first and offsets never
+ * accumulate while no clip is playing.
+ */
+export class BoneOffsets {
+  private readonly bones = new Map<THREE.Object3D, BoneOffsetState>();
+
+  /** Rotate `bone` by `offset` in its local frame, on top of its base pose. */
+  apply(bone: THREE.Object3D, offset: THREE.Quaternion): void {
+    let state = this.bones.get(bone);
+    if (!state) {
+      state = {
+        base: bone.quaternion.clone(),
+        applied: new THREE.Quaternion(),
+      };
+      this.bones.set(bone, state);
+    } else if (!bone.quaternion.equals(state.applied)) {
+      // The mixer posed the bone this frame
+      state.base.copy(bone.quaternion);
+    }
+
+    bone.quaternion.copy(state.base).multiply(offset);
+    state.applied.copy(bone.quaternion);
+  }
+
+  /** Forget tracked bones, e.g. when the model is replaced. */
+  clear(): void {
+    this.bones.clear();
+  }
+}
@@ -0,0 +1,187 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { isHumanBoneName } from "./bone-maps";
+import { CameraPresetConfig, RenderConfig } from "./config";
+import { EXPRESSION_EASINGS } from "./expressions";
+
+export type CameraDirectorConfig = Pick<
+  RenderConfig,
+  "cameraPresets" | "cameraTransition"
+>;
+
+export type CameraMoveOptions = {
+  // Seconds for the move; 0 cuts straight there
+  duration?: number;
+};
+
+export type CameraDirectorEventMap = {
+  // A preset was chosen, or null once the user moves the camera
+  presetchange: { preset: string | null };
+  followchange: { bone: VRMHumanBoneName | null };
+};
+
+// How quickly following closes the gap to the bone, per second; higher
+// is snappier, lower smooths out jitter
+const FOLLOW_RATE = 6;
+
+type CameraMove = {
+  preset: CameraPresetConfig;
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  elapsed: number;
+  duration: number;
+};
+
+/**
+ * Moves the stage camera between named presets with eased transitions, and
+ * can keep a humanoid bone centred by easing the view onto it.
+ * Presets either fix the camera in the room or frame a bone from an
+ * offset, so a joint close-up follows the avatar's proportions. Dragging
+ * the orbit controls cancels a move in progress.
+ */
+export class CameraDirector extends THREE.EventDispatcher<CameraDirectorEventMap> {
+  private readonly camera: THREE.Camera;
+  private readonly controls: OrbitControls;
+  private readonly presets: Map<string, CameraPresetConfig>;
+  private defaultDuration: number;
+  private currentPreset: string | null = null;
+  private move: CameraMove | null = null;
+  private followBone: VRMHumanBoneName | null = null;
+  private readonly position = new THREE.Vector3();
+  private readonly target = new THREE.Vector3();
+
+  constructor(
+    camera: THREE.Camera,
+    controls: OrbitControls,
+    config: CameraDirectorConfig
+  ) {
+    super();
+    this.camera = camera;
+    this.controls = controls;
+    this.presets = new Map(Object.entries(config.cameraPresets));
+    this.defaultDuration = config.cameraTransition;
+    controls.addEventListener("start", this.handleControlsStart);
+  }
+
+  get preset(): string | null {
+    return this.currentPreset;
+  }
+
+  get followedBone(): VRMHumanBoneName | null {
+    return this.followBone;
+  }
+
+  getPresetNames(): string[] {
+    return [...this.presets.keys()];
+  }
+
+  /** Change the duration of moves that don't give their own. */
+  setDefaultDuration(duration: number): void {
+    this.defaultDuration = duration;
+  }
+
+  /** Add or replace a preset, e.g. a clinic-specific view. */
+  setPreset(name: string, preset: CameraPresetConfig): void {
+    this.presets.set(name, preset);
+  }
+
+  /** Move to a named preset. Bone presets take effect once a VRM is loaded. */
+  moveTo(
+    name: string,
+    { duration = this.defaultDuration }: CameraMoveOptions = {}
+  ): void {
+    const preset = this.presets.get(name);
+    if (!preset) throw new Error(`Unknown camera preset "${name}"`);
+    if ("bone" in preset && !isHumanBoneName(preset.bone)) {
+      throw new Error(`Camera preset "${name}" frames unknown bone`);
+    }
+
+    this.move = {
+      preset,
+      fromPosition: this.camera.position.clone(),
+      fromTarget: this.controls.target.clone(),
+      elapsed: 0,
+      duration: Math.max(0, duration),
+    };
+    this.currentPreset = name;
+    this.dispatchEvent({ type: "presetchange", preset: name });
+  }
+
+  /**
+   * Keep a humanoid bone centred as it moves, or stop with null. The
+   * orbit target eases onto the bone and the camera moves with it, so
+   * the viewing distance and angle stay as they are.
+   */
+  follow(bone: VRMHumanBoneName | null): void {
+    this.followBone = bone;
+    this.dispatchEvent({ type: "followchange", bone });
+  }
+
+  /** Advance moves and following. Call each frame before the controls. */
+  update(vrm: VRM | null, delta: number): void {
+    if (this.move) this.updateMove(this.move, vrm, delta);
+    this.updateFollow(vrm, delta);
+  }
+
+  dispose(): void {
+    this.controls.removeEventListener("start", this.handleControlsStart);
+  }
+
+  private updateMove(move: CameraMove, vrm: VRM | null, delta: number): void {
+    if (!this.resolvePreset(move.preset, vrm)) return;
+
+    move.elapsed += delta;
+    const t = move.duration > 0 ? Math.min(1, move.elapsed / move.duration) : 1;
+    const eased = EXPRESSION_EASINGS.easeInOut(t);
+    this.camera.position.lerpVectors(move.fromPosition, this.position, eased);
+    this.controls.target.lerpVectors(move.fromTarget, this.target, eased);
+    if (t >= 1) this.move = null;
+  }
+
+  private updateFollow(vrm: VRM | null, delta: number): void {
+    // A preset move owns the camera until it lands
+    if (this.move) return;
+    const node =
+      this.followBone && vrm?.humanoid?.getNormalizedBoneNode(this.followBone);
+    if (!node) return;
+
+    node.updateWorldMatrix(true, false);
+    node.getWorldPosition(this.position);
+    // Frame-rate independent easing of the target towards the bone
+    const step = 1 - Math.exp(-FOLLOW_RATE * delta);
+    this.target
+      .subVectors(this.position, this.controls.target)
+      .multiplyScalar(step);
+    this.camera.position.add(this.target);
+    this.controls.target.add(this.target);
+  }
+
+  // Fill `position` and `target` for a preset; false if it can't apply yet
+  private resolvePreset(preset: CameraPresetConfig, vrm: VRM | null): boolean {
+    if ("position" in preset) {
+      const { position, lookAt } = preset;
+      this.position.set(position.x, position.y, position.z);
+      this.target.set(lookAt.x, lookAt.y, lookAt.z);
+      return true;
+    }
+
+    const node = vrm?.humanoid?.getNormalizedBoneNode(
+      preset.bone as VRMHumanBoneName
+    );
+    if (!node) return false;
+    node.updateWorldMatrix(true, false);
+    node.getWorldPosition(this.target);
+    const { x, y, z } = preset.offset;
+    this.position.set(x, y, z).add(this.target);
+    return true;
+  }
+
+  private handleControlsStart = (): void => {
+    this.move = null;
+    if (this.currentPreset !== null) {
+      this.currentPreset = null;
+      this.dispatchEvent({ type: "presetchange", preset: null });
+    }
+  };
+}
@@ -0,0 +1,161 @@
+// Centralized configuration
+const adjust = 0;
+export const hexToColor = (hex: string): number => {
+  return parseInt(hex.replace("#", "0x"), 16);
+};
+type Vector3Config = { x: number; y: number; z: number };
+// A fixed view, or one framing a humanoid bone from an offset to it
+export type CameraPresetConfig =
+  | { position: Vector3Config; lookAt: Vector3Config }
+  | { bone: string; offset: Vector3Config };
+
+export const RENDER_CONFIG = {
+  // Scene settings
+  backgroundColor: 0xffffff,
+
+  // Camera settings
+  camera: {
+    fov: 45,
+    near: 0.1,
+    far: 100,
+    position: {
+      x: 0,
+      y: 1.5 + adjust,
+      z: 1.25,
+    },
+    lookAt: {
+      x: 0,
+      y: 1.3 + adjust,
+      z: 0,
+    },
+  },
+
+  // Lighting settings
+  hemisphereLight: {
+    skyColor: hexToColor("#ffffff"),
+    groundColor: hexToColor("#ffffff"),
+    intensity: 1,
+  },
+  directionalLight: {
+    color: hexToColor("#ffffff"),
+    intensity: 0.9,
+    position: {
+      x: -1,
+      y: 1.75,
+      z: 1,
+    },
+    shadowMapSize: 2048,
+  },
+  ambientLight: {
+    color: hexToColor("#e0f8f5"),
+    intensity: 0.85,
+  },
+
+  // Material settings
+  wallMaterial: {
+    color: hexToColor("#ccfef7"),
+    roughness: 0.8,
+    metalness: 0.2,
+  },
+  // Shadow settings
+  shadowBias: -0.0005,
+
+  // UI settings
+  showControls: true,
+
+  // Disable Camera Manual Rotation and Zoom
+  disableCameraRotation: false,
+
+  // Ignore device and URL overrides of the render profile, e.g. on kiosks
+  lockSettings: false,
+
+  // Named camera views, moved between with an eased transition
+  cameraPresets: {
+    front: {
+      position: { x: 0, y: 1.5 + adjust, z: 1.25 },
+      lookAt: { x: 0, y: 1.3 + adjust, z: 0 },
+    },
+    left: {
+      position: { x: 2.5, y: 1.2 + adjust, z: 0 },
+      lookAt: { x: 0, y: 1 + adjust, z: 0 },
+    },
+    right: {
+      position: { x: -2.5, y: 1.2 + adjust, z: 0 },
+      lookAt: { x: 0, y: 1 + adjust, z: 0 },
+    },
+    top: {
+      position: { x: 0, y: 4.5 + adjust, z: 0.01 },
+      lookAt: { x: 0, y: 0, z: 0 },
+    },
+    leftKnee: { bone: "leftLowerLeg", offset: { x: 0.35, y: 0.1, z: 0.8 } },
+    rightKnee: { bone: "rightLowerLeg", offset: { x: -0.35, y: 0.1, z: 0.8 } },
+    leftShoulder: {
+      bone: "leftUpperArm",
+      offset: { x: 0.35, y: 0.1, z: 0.8 },
+    },
+    rightShoulder: {
+      bone: "rightUpperArm",
+      offset: { x: -0.35, y: 0.1, z: 0.8 },
+    },
+  } as Record<string, CameraPresetConfig>,
+  // Seconds taken to move between camera presets
+  cameraTransition: 0.8,
+
+  // Eye and head tracking; target is "camera", a named target or null
+  lookAt: {
+    target: "camera" as string | null,
+    // Seconds for the gaze to catch up with a moving target
+    smoothing: 0.15,
+    // Scene positions the avatar can be told to look at by name
+    namedTargets: {
+      patient: { x: 0, y: 1.2, z: 2 },
+    } as Record<string, { x: number; y: number; z: number }>,
+    headFollow: {
+      enabled: true,
+      // Share of the turn taken by the head and neck; the eyes do the rest
+      weight: 0.5,
+      // Limits in degrees
+      maxYaw: 45,
+      maxPitch: 25,
+    },
+  },
+
+  // Expression preset weights
+  expressionWeight: 1.0,
+
+  // Procedural idle motion blended on top of any playing animation
+  idleLayer: {
+    enabled: true,
+    blink: true,
+    breathing: true,
+    saccades: true,
+    // Seconds between blinks, picked at random within the range
+    blinkInterval: { min: 2, max: 6 },
+    breathsPerMinute: 14,
+  },
+
+  // Available expressions
+  expressions: [
+    "neutral",
+    "happy",
+    "angry",
+    "sad",
+    "relaxed",
+    "surprised",
+    "aa",
+    "ih",
+    "ou",
+    "ee",
+    "oh",
+    "blink",
+    "blinkLeft",
+    "blinkRight",
+    // Driven by the lookAt controller rather than set by hand
+    // "lookUp",
+    // "lookDown",
+    // "lookLeft",
+    // "lookRight",
+  ],
+};
+
+export type RenderConfig = typeof RENDER_CONFIG;
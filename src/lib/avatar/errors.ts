@@ -0,0 +1,40 @@
+// Loader callbacks reject with anything from Error to ProgressEvent
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === "object" && error && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return "Unknown error";
+};
+
+/**
+ * Rejection for a load that was aborted or superseded by a later one,
+ * shaped like the one `fetch` rejects with when aborted.
+ */
+export const createAbortError = (message: string): DOMException =>
+  new DOMException(message, "AbortError");
+
+// Callers usually ignore these rather than report them
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/** Settle with `promise`, or reject as soon as `signal` aborts. */
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    return Promise.reject(createAbortError("The load was aborted"));
+  }
+  return new Promise((resolve, reject) => {
+    const handleAbort = (): void =>
+      reject(createAbortError("The load was aborted"));
+    signal.addEventListener("abort", handleAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", handleAbort));
+  });
+};
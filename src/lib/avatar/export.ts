@@ -0,0 +1,37 @@
+/** Helpers for saving measurements and charts from the browser. */
+
+type CsvCell = string | number | null | undefined;
+
+const escapeCsvCell = (cell: CsvCell): string => {
+  const text = cell === null || cell === undefined ? "" : String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Format rows as CSV, quoting cells that need it. */
+export const toCsv = (rows: CsvCell[][]): string =>
+  rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n") + "\n";
+
+/** Save text or binary content as a file through a temporary link. */
+export const downloadFile = (
+  filename: string,
+  content: BlobPart,
+  type: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Save a rendered SVG element as a standalone .svg file. */
+export const downloadSvg = (filename: string, svg: SVGSVGElement): void => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  downloadFile(
+    filename,
+    new XMLSerializer().serializeToString(clone),
+    "image/svg+xml"
+  );
+};
@@ -0,0 +1,50 @@
+import { VRM, VRMExpressionPresetName } from "@pixiv/three-vrm";
+
+export type ExpressionEasing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export type ExpressionTransitionOptions = {
+  // Seconds to blend from the current weight; 0 applies immediately
+  duration?: number;
+  easing?: ExpressionEasing;
+};
+
+// A weight blending towards its target over time
+export type ExpressionTransition = {
+  from: number;
+  to: number;
+  elapsed: number;
+  duration: number;
+  easing: ExpressionEasing;
+};
+
+export const EXPRESSION_EASINGS: Record<
+  ExpressionEasing,
+  (t: number) => number
+> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t,
+  easeOut: (t) => t * (2 - t),
+  easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+};
+
+const PRESET_NAMES = new Set<string>(Object.values(VRMExpressionPresetName));
+
+/**
+ * Expressions a model offers: the configured presets it has, in config
+ * order, followed by its custom expressions. Presets left out of the config
+ * (such as the lookAt ones) are skipped.
+ */
+export const getExpressionNames = (
+  vrm: VRM | null,
+  configured: readonly string[]
+): string[] => {
+  const expressionManager = vrm?.expressionManager;
+  if (!expressionManager) return [];
+
+  const available = expressionManager.expressions.map(
+    (expression) => expression.expressionName
+  );
+  const presets = configured.filter((name) => available.includes(name));
+  const custom = available.filter((name) => !PRESET_NAMES.has(name));
+  return [...presets, ...custom];
+};
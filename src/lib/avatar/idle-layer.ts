@@ -0,0 +1,139 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+import { BoneOffsets } from "./bone-offsets";
+import { RenderConfig } from "./config";
+
+export type IdleLayerConfig = RenderConfig["idleLayer"];
+
+// Seconds a blink takes to close and reopen
+const BLINK_DURATION = 0.15;
+const BLINK_EXPRESSIONS = ["blink", "blinkLeft", "blinkRight"];
+// Peak breathing rotation in radians, about each bone's x axis
+const BREATHING_BONES: [VRMHumanBoneName, number][] = [
+  ["spine", 0.008],
+  ["chest", 0.014],
+  ["upperChest", 0.01],
+];
+// Saccade range in degrees and the seconds between them
+const SACCADE_YAW = 4;
+const SACCADE_PITCH = 2;
+const SACCADE_INTERVAL = { min: 0.4, max: 2.5 };
+// How quickly the eyes settle on a new saccade target, per second
+const SACCADE_RATE = 40;
+
+const randomBetween = ({ min, max }: { min: number; max: number }): number =>
+  min + Math.random() * (max - min);
+
+/**
+ * Keeps the avatar alive with randomized blinking, breathing and small eye
+ * saccades, applied on top of whatever the mixer wrote this frame.
+ */
+export class ProceduralIdleLayer {
+  private readonly stage: AvatarStage;
+  private readonly config: IdleLayerConfig;
+  private readonly boneOffsets = new BoneOffsets();
+  private readonly offset = new THREE.Quaternion();
+  private readonly axis = new THREE.Vector3(1, 0, 0);
+  private time = 0;
+  private nextBlink = 0;
+  private blinkTime = -1;
+  private nextSaccade = 0;
+  private readonly saccadeTarget = new THREE.Vector2();
+  private readonly saccade = new THREE.Vector2();
+  private readonly lookAtBase = new THREE.Vector2();
+  private readonly lookAtApplied = new THREE.Vector2();
+
+  constructor(stage: AvatarStage, config: IdleLayerConfig) {
+    this.stage = stage;
+    this.config = config;
+    this.nextBlink = randomBetween(config.blinkInterval);
+    stage.addEventListener("update", this.handleUpdate);
+    stage.addEventListener("load", this.handleLoad);
+  }
+
+  dispose(): void {
+    this.stage.removeEventListener("update", this.handleUpdate);
+    this.stage.removeEventListener("load", this.handleLoad);
+  }
+
+  private updateBlink(vrm: VRM, delta: number): void {
+    const expressionManager = vrm.expressionManager;
+    if (!expressionManager) return;
+
+    // Leave the eyes to a blink someone set on purpose
+    const weights = this.stage.expressionWeights;
+    if (BLINK_EXPRESSIONS.some((name) => weights[name] > 0)) {
+      this.blinkTime = -1;
+      return;
+    }
+
+    if (this.blinkTime < 0) {
+      if (this.time < this.nextBlink) return;
+      this.blinkTime = 0;
+    }
+
+    this.blinkTime += delta;
+    const t = this.blinkTime / BLINK_DURATION;
+    if (t >= 1) {
+      expressionManager.setValue("blink", 0);
+      this.blinkTime = -1;
+      this.nextBlink = this.time + randomBetween(this.config.blinkInterval);
+      return;
+    }
+    expressionManager.setValue("blink", Math.sin(Math.PI * t));
+  }
+
+  private updateBreathing(vrm: VRM): void {
+    const phase = 2 * Math.PI * this.time * (this.config.breathsPerMinute / 60);
+    const breath = Math.sin(phase);
+
+    BREATHING_BONES.forEach(([boneName, amplitude]) => {
+      const bone = vrm.humanoid?.getNormalizedBoneNode(boneName);
+      if (!bone) return;
+
+      this.offset.setFromAxisAngle(this.axis, breath * amplitude);
+      this.boneOffsets.apply(bone, this.offset);
+    });
+  }
+
+  private updateSaccades(vrm: VRM, delta: number): void {
+    const lookAt = vrm.lookAt;
+    // A look-at target overrides yaw and pitch every frame anyway
+    if (!lookAt || (lookAt.autoUpdate && lookAt.target)) return;
+
+    if (this.time >= this.nextSaccade) {
+      this.saccadeTarget.set(
+        (Math.random() * 2 - 1) * SACCADE_YAW,
+        (Math.random() * 2 - 1) * SACCADE_PITCH
+      );
+      this.nextSaccade = this.time + randomBetween(SACCADE_INTERVAL);
+    }
+    this.saccade.lerp(this.saccadeTarget, 1 - Math.exp(-SACCADE_RATE * delta));
+
+    if (lookAt.yaw !== this.lookAtApplied.x) this.lookAtBase.x = lookAt.yaw;
+    if (lookAt.pitch !== this.lookAtApplied.y) {
+      this.lookAtBase.y = lookAt.pitch;
+    }
+    lookAt.yaw = this.lookAtBase.x + this.saccade.x;
+    lookAt.pitch = this.lookAtBase.y + this.saccade.y;
+    this.lookAtApplied.set(lookAt.yaw, lookAt.pitch);
+  }
+
+  private handleUpdate = ({
+    vrm,
+    delta,
+  }: AvatarStageEventMap["update"]): void => {
+    this.time += delta;
+    if (this.config.blink) this.updateBlink(vrm, delta);
+    if (this.config.breathing) this.updateBreathing(vrm);
+    if (this.config.saccades) this.updateSaccades(vrm, delta);
+  };
+
+  // Bones and gaze belong to the new model
+  private handleLoad = (): void => {
+    this.boneOffsets.clear();
+    this.lookAtBase.set(0, 0);
+    this.lookAtApplied.set(0, 0);
+  };
+}
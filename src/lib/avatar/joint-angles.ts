@@ -0,0 +1,257 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+import { toCsv } from "./export";
+
+/**
+ * Clinical joint angles read from the VRM's normalized humanoid each frame.
+ * All values are in degrees with 0 at the anatomical rest position: arms
+ * hanging, legs straight, trunk upright. Shoulder and hip angles are taken
+ * in the chest's and hips' own frames so a leaning trunk doesn't show up as
+ * arm or leg motion.
+ */
+
+export type JointAngleDefinition = {
+  id: string;
+  label: string;
+};
+
+export const JOINT_ANGLES = [
+  { id: "leftElbowFlexion", label: "Left elbow flexion" },
+  { id: "rightElbowFlexion", label: "Right elbow flexion" },
+  { id: "leftKneeFlexion", label: "Left knee flexion" },
+  { id: "rightKneeFlexion", label: "Right knee flexion" },
+  { id: "leftShoulderAbduction", label: "Left shoulder abduction" },
+  { id: "rightShoulderAbduction", label: "Right shoulder abduction" },
+  { id: "leftShoulderFlexion", label: "Left shoulder flexion" },
+  { id: "rightShoulderFlexion", label: "Right shoulder flexion" },
+  { id: "leftHipFlexion", label: "Left hip flexion" },
+  { id: "rightHipFlexion", label: "Right hip flexion" },
+  { id: "trunkLean", label: "Trunk lean" },
+] as const satisfies readonly JointAngleDefinition[];
+
+export type JointAngleId = (typeof JOINT_ANGLES)[number]["id"];
+
+// Degrees per angle; missing when the VRM lacks the bones for it
+export type JointAngles = Partial<Record<JointAngleId, number>>;
+
+export type JointAngleSample = {
+  // Seconds since measuring started for the current clip
+  time: number;
+  angles: JointAngles;
+};
+
+export type JointAngleRange = {
+  current: number;
+  min: number;
+  max: number;
+};
+
+export type JointAngleTrackerOptions = {
+  // Samples recorded per second
+  sampleRate?: number;
+  // Oldest samples are dropped past this count
+  maxSamples?: number;
+};
+
+export type JointAngleTrackerEventMap = {
+  sample: { sample: JointAngleSample };
+  reset: { clipName: string | null };
+};
+
+const DEFAULT_SAMPLE_RATE = 10;
+const DEFAULT_MAX_SAMPLES = 3000;
+
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+const _c = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _up = new THREE.Vector3();
+const _forward = new THREE.Vector3();
+const _left = new THREE.Vector3();
+const _worldUp = new THREE.Vector3(0, 1, 0);
+
+const degrees = THREE.MathUtils.radToDeg;
+
+/**
+ * Measure the current pose. Reads the normalized bones, so call it after
+ * the mixer and add-on layers have posed them for the frame.
+ */
+export function measureJointAngles(vrm: VRM): JointAngles {
+  const humanoid = vrm.humanoid;
+  if (!humanoid) return {};
+  humanoid.normalizedHumanBonesRoot.updateMatrixWorld(true);
+
+  // VRM 0.x normalized rigs face -Z
+  const facing = vrm.meta?.metaVersion === "0" ? -1 : 1;
+  const position = (bone: VRMHumanBoneName, target: THREE.Vector3) => {
+    const node = humanoid.getNormalizedBoneNode(bone);
+    return node ? node.getWorldPosition(target) : null;
+  };
+  // Direction from one bone to the next, or null if either is missing
+  const segment = (
+    from: VRMHumanBoneName,
+    to: VRMHumanBoneName,
+    target: THREE.Vector3
+  ): THREE.Vector3 | null => {
+    const start = position(from, _c);
+    const end = start && position(to, target);
+    return end ? end.sub(start).normalize() : null;
+  };
+  // Up, forward and left axes of a bone's frame
+  const frameOf = (bone: VRMHumanBoneName): boolean => {
+    const node = humanoid.getNormalizedBoneNode(bone);
+    if (!node) return false;
+    node.getWorldQuaternion(_quat);
+    _up.set(0, 1, 0).applyQuaternion(_quat);
+    _forward.set(0, 0, facing).applyQuaternion(_quat);
+    _left.set(facing, 0, 0).applyQuaternion(_quat);
+    return true;
+  };
+
+  const angles: JointAngles = {};
+  const sides = [
+    ["left", 1],
+    ["right", -1],
+  ] as const;
+
+  sides.forEach(([side, outward]) => {
+    const upperArm = segment(`${side}UpperArm`, `${side}LowerArm`, _a);
+    const forearm = segment(`${side}LowerArm`, `${side}Hand`, _b);
+    if (upperArm && forearm) {
+      angles[`${side}ElbowFlexion`] = degrees(upperArm.angleTo(forearm));
+    }
+    if (upperArm && (frameOf("upperChest") || frameOf("chest"))) {
+      const down = -upperArm.dot(_up);
+      angles[`${side}ShoulderAbduction`] = degrees(
+        Math.atan2(outward * upperArm.dot(_left), down)
+      );
+      angles[`${side}ShoulderFlexion`] = degrees(
+        Math.atan2(upperArm.dot(_forward), down)
+      );
+    }
+
+    const thigh = segment(`${side}UpperLeg`, `${side}LowerLeg`, _a);
+    const shin = segment(`${side}LowerLeg`, `${side}Foot`, _b);
+    if (thigh && shin) {
+      angles[`${side}KneeFlexion`] = degrees(thigh.angleTo(shin));
+    }
+    if (thigh && frameOf("hips")) {
+      angles[`${side}HipFlexion`] = degrees(
+        Math.atan2(thigh.dot(_forward), -thigh.dot(_up))
+      );
+    }
+  });
+
+  const trunk = segment("hips", "neck", _a);
+  if (trunk) angles.trunkLean = degrees(trunk.angleTo(_worldUp));
+
+  return angles;
+}
+
+/**
+ * Samples joint angles from the stage while a clip plays and keeps the
+ * current, minimum and maximum of each. Measurements start over whenever
+ * a different clip starts, so the ranges describe one exercise.
+ */
+export class JointAngleTracker extends THREE.EventDispatcher<JointAngleTrackerEventMap> {
+  private readonly stage: AvatarStage;
+  private readonly sampleInterval: number;
+  private readonly maxSamples: number;
+  private history: JointAngleSample[] = [];
+  private readonly rangeMap = new Map<JointAngleId, JointAngleRange>();
+  private currentClipName: string | null = null;
+  private elapsed = 0;
+  private sinceSample = Infinity;
+
+  constructor(
+    stage: AvatarStage,
+    {
+      sampleRate = DEFAULT_SAMPLE_RATE,
+      maxSamples = DEFAULT_MAX_SAMPLES,
+    }: JointAngleTrackerOptions = {}
+  ) {
+    super();
+    this.stage = stage;
+    this.sampleInterval = 1 / Math.max(1, sampleRate);
+    this.maxSamples = maxSamples;
+    stage.addEventListener("update", this.handleUpdate);
+    stage.addEventListener("actionstart", this.handleActionStart);
+  }
+
+  get clipName(): string | null {
+    return this.currentClipName;
+  }
+
+  get samples(): readonly JointAngleSample[] {
+    return this.history;
+  }
+
+  /** Current, min and max per angle since the clip started. */
+  get ranges(): ReadonlyMap<JointAngleId, JointAngleRange> {
+    return this.rangeMap;
+  }
+
+  /** Clear the measurements and start timing from zero. */
+  reset(): void {
+    this.history = [];
+    this.rangeMap.clear();
+    this.elapsed = 0;
+    this.sinceSample = Infinity;
+    this.dispatchEvent({ type: "reset", clipName: this.currentClipName });
+  }
+
+  /** Recorded samples as CSV, one row per sample and a column per angle. */
+  toCsv(): string {
+    const ids = JOINT_ANGLES.map(({ id }) => id).filter((id) =>
+      this.rangeMap.has(id)
+    );
+    return toCsv([
+      ["clip", "time", ...ids],
+      ...this.history.map(({ time, angles }) => [
+        this.currentClipName ?? "",
+        time.toFixed(3),
+        ...ids.map((id) => angles[id]?.toFixed(2)),
+      ]),
+    ]);
+  }
+
+  dispose(): void {
+    this.stage.removeEventListener("update", this.handleUpdate);
+    this.stage.removeEventListener("actionstart", this.handleActionStart);
+  }
+
+  private handleUpdate = ({
+    vrm,
+    delta,
+  }: AvatarStageEventMap["update"]): void => {
+    if (this.stage.paused) return;
+
+    this.elapsed += delta;
+    this.sinceSample += delta;
+    if (this.sinceSample < this.sampleInterval) return;
+    this.sinceSample = 0;
+
+    const sample = { time: this.elapsed, angles: measureJointAngles(vrm) };
+    Object.entries(sample.angles).forEach(([id, value]) => {
+      const range = this.rangeMap.get(id as JointAngleId);
+      this.rangeMap.set(id as JointAngleId, {
+        current: value,
+        min: Math.min(range?.min ?? value, value),
+        max: Math.max(range?.max ?? value, value),
+      });
+    });
+    this.history.push(sample);
+    if (this.history.length > this.maxSamples) this.history.shift();
+    this.dispatchEvent({ type: "sample", sample });
+  };
+
+  private handleActionStart = ({
+    action,
+  }: AvatarStageEventMap["actionstart"]): void => {
+    const clipName = action.getClip().name;
+    if (clipName === this.currentClipName) return;
+    this.currentClipName = clipName;
+    this.reset();
+  };
+}
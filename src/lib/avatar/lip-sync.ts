@@ -0,0 +1,234 @@
+import * as THREE from "three";
+import { VRMExpressionPresetName } from "@pixiv/three-vrm";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+import { getErrorMessage } from "./errors";
+
+export const VISEMES = ["aa", "ih", "ou", "ee", "oh"] as const;
+
+export type Viseme = (typeof VISEMES)[number];
+
+export type VisemeWeights = Record<Viseme, number>;
+
+export type LipSyncEventMap = {
+  start: { url: string };
+  end: object;
+};
+
+// Rough formant ranges in Hz that each mouth shape resonates in
+const VISEME_BANDS: Record<Viseme, [number, number]> = {
+  ou: [250, 500],
+  oh: [400, 800],
+  aa: [700, 1200],
+  ih: [1800, 2600],
+  ee: [2600, 3500],
+};
+
+// RMS level treated as silence, and the gain mapping speech to full weight
+const NOISE_FLOOR = 0.01;
+const LEVEL_GAIN = 8;
+// How quickly viseme weights chase their targets, per second
+const SMOOTHING_RATE = 18;
+// Weights below this are snapped to zero once playback has ended
+const SILENCE_EPSILON = 0.001;
+
+export const createVisemeWeights = (): VisemeWeights => ({
+  aa: 0,
+  ih: 0,
+  ou: 0,
+  ee: 0,
+  oh: 0,
+});
+
+/** Ease `current` toward `target` over one frame, frame-rate independent. */
+export const smoothVisemeWeights = (
+  current: VisemeWeights,
+  target: VisemeWeights,
+  delta: number
+): void => {
+  const t = 1 - Math.exp(-SMOOTHING_RATE * delta);
+  VISEMES.forEach((viseme) => {
+    current[viseme] += (target[viseme] - current[viseme]) * t;
+  });
+};
+
+/**
+ * Write viseme weights through the expression manager. Only the mouth
+ * presets are touched, so emotions and blinks set elsewhere stay applied.
+ */
+export const applyVisemeWeights = (
+  stage: AvatarStage,
+  weights: VisemeWeights
+): void => {
+  const expressionManager = stage.vrm?.expressionManager;
+  if (!expressionManager) return;
+  VISEMES.forEach((viseme) => {
+    expressionManager.setValue(
+      viseme as VRMExpressionPresetName,
+      weights[viseme]
+    );
+  });
+};
+
+/**
+ * Plays a voice clip and moves the avatar's mouth to it. Each frame the
+ * audio spectrum is split into formant bands, the strongest band picks the
+ * dominant viseme and the overall loudness sets how far the mouth opens.
+ */
+export class AudioLipSync extends THREE.EventDispatcher<LipSyncEventMap> {
+  // Multiplier on mouth opening; raise for quiet recordings
+  sensitivity = 1;
+
+  private readonly stage: AvatarStage;
+  private context: AudioContext | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private source: MediaElementAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private frequencyData: Float32Array<ArrayBuffer> | null = null;
+  private timeData: Float32Array<ArrayBuffer> | null = null;
+  private readonly weights = createVisemeWeights();
+  private readonly target = createVisemeWeights();
+  // Keeps writing while weights fade back to zero after playback
+  private active = false;
+  private cancelWait: (() => void) | null = null;
+
+  constructor(stage: AvatarStage) {
+    super();
+    this.stage = stage;
+    stage.addEventListener("update", this.handleUpdate);
+  }
+
+  get playing(): boolean {
+    return this.audio !== null;
+  }
+
+  /**
+   * Play an audio file with lip-sync. Resolves when it ends or is stopped.
+   * Must be called from a user gesture the first time so audio may start.
+   */
+  async play(url: string): Promise<void> {
+    this.stop();
+
+    const context = this.getContext();
+    const audio = new Audio(url);
+    const source = context.createMediaElementSource(audio);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.5;
+    source.connect(analyser);
+    analyser.connect(context.destination);
+
+    this.audio = audio;
+    this.source = source;
+    this.analyser = analyser;
+    this.frequencyData = new Float32Array(analyser.frequencyBinCount);
+    this.timeData = new Float32Array(analyser.fftSize);
+    this.active = true;
+
+    const finished = new Promise<void>((resolve) => {
+      const done = () => {
+        audio.removeEventListener("ended", done);
+        if (this.cancelWait === done) this.cancelWait = null;
+        resolve();
+      };
+      audio.addEventListener("ended", done);
+      this.cancelWait = done;
+    });
+
+    try {
+      await context.resume();
+      await audio.play();
+    } catch (err) {
+      this.stop();
+      throw new Error(`Failed to play audio: ${getErrorMessage(err)}`);
+    }
+    this.dispatchEvent({ type: "start", url });
+
+    await finished;
+    if (this.audio === audio) this.release();
+  }
+
+  /** Stop playback; the mouth eases closed over the next few frames. */
+  stop(): void {
+    this.audio?.pause();
+    this.cancelWait?.();
+    this.cancelWait = null;
+    this.release();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.stage.removeEventListener("update", this.handleUpdate);
+    this.context?.close();
+    this.context = null;
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) this.context = new AudioContext();
+    return this.context;
+  }
+
+  private release(): void {
+    if (!this.audio) return;
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.audio.removeAttribute("src");
+    this.audio = null;
+    this.source = null;
+    this.analyser = null;
+    VISEMES.forEach((viseme) => (this.target[viseme] = 0));
+    this.dispatchEvent({ type: "end" });
+  }
+
+  private analyse(): void {
+    const { analyser, frequencyData, timeData, context } = this;
+    if (!analyser || !frequencyData || !timeData || !context) return;
+
+    analyser.getFloatTimeDomainData(timeData);
+    let sum = 0;
+    for (let i = 0; i < timeData.length; i++) sum += timeData[i] ** 2;
+    const rms = Math.sqrt(sum / timeData.length);
+    const level = THREE.MathUtils.clamp(
+      (rms - NOISE_FLOOR) * LEVEL_GAIN * this.sensitivity,
+      0,
+      1
+    );
+
+    // Mean linear power per band
+    analyser.getFloatFrequencyData(frequencyData);
+    const binWidth = context.sampleRate / analyser.fftSize;
+    const energies = createVisemeWeights();
+    let strongest = 0;
+    VISEMES.forEach((viseme) => {
+      const [low, high] = VISEME_BANDS[viseme];
+      const start = Math.floor(low / binWidth);
+      const end = Math.min(frequencyData.length, Math.ceil(high / binWidth));
+      let power = 0;
+      for (let i = start; i < end; i++) power += 10 ** (frequencyData[i] / 10);
+      energies[viseme] = power / Math.max(1, end - start);
+      strongest = Math.max(strongest, energies[viseme]);
+    });
+
+    // Dominant band gets the full level, the rest fall off quadratically
+    VISEMES.forEach((viseme) => {
+      const share = strongest > 0 ? energies[viseme] / strongest : 0;
+      this.target[viseme] = level * share * share;
+    });
+  }
+
+  private handleUpdate = ({ delta }: AvatarStageEventMap["update"]): void => {
+    if (!this.active) return;
+
+    this.analyse();
+    smoothVisemeWeights(this.weights, this.target, delta);
+
+    // Once silent, hand the mouth back to manual expressions
+    if (
+      !this.audio &&
+      VISEMES.every((viseme) => this.weights[viseme] < SILENCE_EPSILON)
+    ) {
+      VISEMES.forEach((viseme) => (this.weights[viseme] = 0));
+      this.active = false;
+    }
+    applyVisemeWeights(this.stage, this.weights);
+  };
+}
@@ -0,0 +1,165 @@
+import type { AnimationFormat } from "./animation-sources";
+import { getErrorMessage } from "./errors";
+
+/**
+ * Files opened from the user's disk, e.g. dropped on the viewer. They are
+ * served through object URLs, which have no extension, so the format is
+ * sniffed from the contents and remembered for the loaders.
+ */
+
+export type LocalFileFormat = AnimationFormat | "vrm";
+
+export type LocalFile = {
+  name: string;
+  // Together with the name, tells a re-opened file from a changed one
+  size: number;
+  lastModified: number;
+  // Object URL, valid until `closeLocalFile`
+  url: string;
+  kind: "model" | "animation";
+  format: LocalFileFormat;
+};
+
+// File extensions offered by the file picker
+export const LOCAL_FILE_ACCEPT = ".vrm,.glb,.gltf,.fbx,.bvh,.vrma,.json,.csv";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_JSON_CHUNK = 0x4e4f534a; // "JSON"
+const GLB_HEADER_LENGTH = 20;
+const FBX_BINARY_MAGIC = "Kaydara FBX Binary";
+// Enough of a text file to recognise its header
+const TEXT_SNIFF_LENGTH = 4096;
+
+const VRM_EXTENSIONS = ["VRMC_vrm", "VRM"];
+const VRMA_EXTENSION = "VRMC_vrm_animation";
+
+// Formats of the object URLs opened so far
+const localFormats = new Map<string, LocalFileFormat>();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Object URLs have no directory, so buffers and textures in other files
+// can't be resolved
+const findExternalUri = (gltf: Record<string, unknown>): string | null => {
+  for (const key of ["buffers", "images"]) {
+    const items = gltf[key];
+    if (!Array.isArray(items)) continue;
+    for (const item of items) {
+      if (
+        isRecord(item) &&
+        typeof item.uri === "string" &&
+        !item.uri.startsWith("data:")
+      ) {
+        return item.uri;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Tell VRM models, VRM Animations and plain glTF clips apart by the
+ * extensions a glTF document declares.
+ */
+const classifyGltf = (gltf: unknown): LocalFileFormat => {
+  if (!isRecord(gltf)) throw new Error("The glTF data is not an object");
+  const externalUri = findExternalUri(gltf);
+  if (externalUri) {
+    throw new Error(
+      `It refers to a separate file (${externalUri}), which can't be opened from disk. Use a .glb or a glTF with embedded data instead`
+    );
+  }
+  const extensions = Array.isArray(gltf.extensionsUsed)
+    ? gltf.extensionsUsed
+    : [];
+  if (VRM_EXTENSIONS.some((extension) => extensions.includes(extension))) {
+    return "vrm";
+  }
+  if (extensions.includes(VRMA_EXTENSION)) return "vrma";
+  if (Array.isArray(gltf.animations) && gltf.animations.length > 0) {
+    return "gltf";
+  }
+  throw new Error(
+    "It is a glTF model without VRM data or animations. Convert it to VRM (e.g. with UniVRM or the VRM Add-on for Blender) before loading it"
+  );
+};
+
+const readGlbJson = async (file: File): Promise<unknown> => {
+  const header = new DataView(
+    await file.slice(0, GLB_HEADER_LENGTH).arrayBuffer()
+  );
+  if (header.getUint32(16, true) !== GLB_JSON_CHUNK) {
+    throw new Error("The GLB file has no JSON chunk");
+  }
+  const chunkLength = header.getUint32(12, true);
+  return JSON.parse(
+    await file.slice(GLB_HEADER_LENGTH, GLB_HEADER_LENGTH + chunkLength).text()
+  );
+};
+
+/** Work out a file's format from its contents, ignoring its extension. */
+export const sniffFileFormat = async (file: File): Promise<LocalFileFormat> => {
+  const head = new Uint8Array(
+    await file.slice(0, TEXT_SNIFF_LENGTH).arrayBuffer()
+  );
+
+  if (
+    head.length >= GLB_HEADER_LENGTH &&
+    new DataView(head.buffer).getUint32(0, true) === GLB_MAGIC
+  ) {
+    return classifyGltf(await readGlbJson(file));
+  }
+
+  const text = new TextDecoder().decode(head).trimStart();
+  if (text.startsWith(FBX_BINARY_MAGIC)) return "fbx";
+  if (text.startsWith("; FBX") || text.includes("FBXHeaderExtension")) {
+    return "fbx";
+  }
+  if (text.startsWith("HIERARCHY")) return "bvh";
+  if (text.startsWith("{")) {
+    // A glTF document has an "asset" record; anything else is a pose recording
+    const json: unknown = JSON.parse(await file.text());
+    return isRecord(json) && isRecord(json.asset) ? classifyGltf(json) : "json";
+  }
+  if (text.startsWith("[")) return "json";
+  if (text.split(/\r?\n/, 1)[0].includes(",")) return "csv";
+
+  throw new Error(
+    "Unrecognised format. Expected VRM, FBX, GLB/glTF, BVH, VRMA or a pose recording (.json/.csv)"
+  );
+};
+
+/**
+ * Sniff a local file and serve it through an object URL that the model and
+ * animation loaders accept like any other URL.
+ */
+export const openLocalFile = async (file: File): Promise<LocalFile> => {
+  let format: LocalFileFormat;
+  try {
+    format = await sniffFileFormat(file);
+  } catch (err) {
+    throw new Error(`Failed to open ${file.name}: ${getErrorMessage(err)}`);
+  }
+
+  const url = URL.createObjectURL(file);
+  localFormats.set(url, format);
+  return {
+    name: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+    url,
+    kind: format === "vrm" ? "model" : "animation",
+    format,
+  };
+};
+
+/** Release a file opened with `openLocalFile`. */
+export const closeLocalFile = (url: string): void => {
+  if (!localFormats.delete(url)) return;
+  URL.revokeObjectURL(url);
+};
+
+/** The sniffed format of an opened file's URL, if it is one. */
+export const getLocalFileFormat = (url: string): LocalFileFormat | undefined =>
+  localFormats.get(url);
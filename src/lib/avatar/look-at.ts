@@ -0,0 +1,222 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { BoneOffsets } from "./bone-offsets";
+import { RenderConfig } from "./config";
+
+export type LookAtConfig = RenderConfig["lookAt"];
+
+export type HeadFollowOptions = LookAtConfig["headFollow"];
+
+export type LookAtTarget =
+  | { kind: "camera" }
+  | { kind: "point"; position: THREE.Vector3 }
+  // A target registered with `setNamedTarget` or listed in the config
+  | { kind: "named"; name: string };
+
+export type LookAtEventMap = {
+  targetchange: { target: LookAtTarget | null };
+};
+
+// How the head turn is split between the neck and the head
+const HEAD_FOLLOW_BONES: [VRMHumanBoneName, number][] = [
+  ["neck", 0.4],
+  ["head", 0.6],
+];
+
+/** Read a config or URL value: "camera", a named target, or none. */
+export const parseLookAtTarget = (
+  value: string | null | undefined
+): LookAtTarget | null => {
+  if (!value || value === "none") return null;
+  if (value === "camera") return { kind: "camera" };
+  return { kind: "named", name: value };
+};
+
+/**
+ * Points the VRM's eyes at the camera, a scene point or a named target, and
+ * optionally turns the head and neck part of the way. The gaze eases after
+ * moving targets, and the head turn is added on top of the playing clip so
+ * animated head motion still shows through.
+ */
+export class LookAtController extends THREE.EventDispatcher<LookAtEventMap> {
+  private readonly camera: THREE.Camera;
+  private readonly smoothing: number;
+  private readonly namedTargets = new Map<
+    string,
+    THREE.Vector3 | THREE.Object3D
+  >();
+  private currentTarget: LookAtTarget | null;
+  private headFollowOptions: HeadFollowOptions;
+  // Eased position handed to the VRM's lookAt
+  private readonly targetObject = new THREE.Object3D();
+  private readonly desired = new THREE.Vector3();
+  private hasPosition = false;
+  private vrm: VRM | null = null;
+  private readonly boneOffsets = new BoneOffsets();
+  // Smoothed head yaw and pitch in radians
+  private readonly headAngles = new THREE.Vector2();
+  private readonly headTarget = new THREE.Vector2();
+  private readonly headPosition = new THREE.Vector3();
+  private readonly direction = new THREE.Vector3();
+  private readonly euler = new THREE.Euler(0, 0, 0, "YXZ");
+  private readonly offset = new THREE.Quaternion();
+
+  constructor(camera: THREE.Camera, config: LookAtConfig) {
+    super();
+    this.camera = camera;
+    this.smoothing = config.smoothing;
+    this.headFollowOptions = { ...config.headFollow };
+    Object.entries(config.namedTargets).forEach(([name, { x, y, z }]) => {
+      this.namedTargets.set(name, new THREE.Vector3(x, y, z));
+    });
+    this.currentTarget = parseLookAtTarget(config.target);
+    this.targetObject.name = "LookAtTarget";
+  }
+
+  get target(): LookAtTarget | null {
+    return this.currentTarget;
+  }
+
+  get headFollow(): HeadFollowOptions {
+    return this.headFollowOptions;
+  }
+
+  /** Look at a target, or straight ahead when null. */
+  setTarget(target: LookAtTarget | null): void {
+    this.currentTarget = target;
+    this.dispatchEvent({ type: "targetchange", target });
+  }
+
+  /**
+   * Register a position or object that can be looked at by name. Objects
+   * are followed as they move.
+   */
+  setNamedTarget(name: string, target: THREE.Vector3 | THREE.Object3D): void {
+    this.namedTargets.set(name, target);
+  }
+
+  removeNamedTarget(name: string): void {
+    this.namedTargets.delete(name);
+  }
+
+  getNamedTargetNames(): string[] {
+    return [...this.namedTargets.keys()];
+  }
+
+  setHeadFollow(options: Partial<HeadFollowOptions>): void {
+    const next = { ...this.headFollowOptions, ...options };
+    next.weight = THREE.MathUtils.clamp(next.weight, 0, 1);
+    this.headFollowOptions = next;
+  }
+
+  /** Aim the eyes and head. Call each frame after the mixer has run. */
+  update(vrm: VRM, delta: number): void {
+    if (vrm !== this.vrm) {
+      this.vrm = vrm;
+      this.boneOffsets.clear();
+      this.headAngles.set(0, 0);
+      this.hasPosition = false;
+    }
+
+    const lookAt = vrm.lookAt;
+    if (!this.resolveTarget(this.desired)) {
+      if (lookAt?.target === this.targetObject) {
+        lookAt.target = null;
+        lookAt.reset();
+      }
+      this.hasPosition = false;
+      this.updateHead(vrm, delta, false);
+      return;
+    }
+
+    const t =
+      this.hasPosition && this.smoothing > 0
+        ? 1 - Math.exp(-delta / this.smoothing)
+        : 1;
+    this.targetObject.position.lerp(this.desired, t);
+    this.targetObject.updateMatrixWorld();
+    this.hasPosition = true;
+
+    if (lookAt) {
+      lookAt.target = this.targetObject;
+      lookAt.autoUpdate = true;
+    }
+    this.updateHead(vrm, delta, this.headFollowOptions.enabled);
+  }
+
+  private resolveTarget(position: THREE.Vector3): boolean {
+    const target = this.currentTarget;
+    if (!target) return false;
+
+    if (target.kind === "camera") {
+      this.camera.getWorldPosition(position);
+      return true;
+    }
+    if (target.kind === "point") {
+      position.copy(target.position);
+      return true;
+    }
+
+    const named = this.namedTargets.get(target.name);
+    if (!named) return false;
+    if (named instanceof THREE.Object3D) {
+      named.getWorldPosition(position);
+    } else {
+      position.copy(named);
+    }
+    return true;
+  }
+
+  private updateHead(vrm: VRM, delta: number, follow: boolean): void {
+    const humanoid = vrm.humanoid;
+    const neck = humanoid?.getNormalizedBoneNode("neck");
+    const head = humanoid?.getNormalizedBoneNode("head");
+    if (!humanoid || !neck?.parent || !head) return;
+
+    // VRM 0.x normalized rigs face -Z
+    const facing = vrm.meta?.metaVersion === "0" ? -1 : 1;
+    this.headTarget.set(0, 0);
+    if (follow) {
+      const { weight, maxYaw, maxPitch } = this.headFollowOptions;
+      // Direction in the chest's frame, so a leaning torso is accounted for
+      head.getWorldPosition(this.headPosition);
+      neck.parent.worldToLocal(this.headPosition);
+      this.direction.copy(this.targetObject.position);
+      neck.parent.worldToLocal(this.direction).sub(this.headPosition);
+
+      const { x, y, z } = this.direction;
+      const yaw = Math.atan2(facing * x, facing * z);
+      const pitch = Math.atan2(y, Math.hypot(x, z));
+      this.headTarget.set(
+        weight *
+          THREE.MathUtils.clamp(
+            yaw,
+            -THREE.MathUtils.degToRad(maxYaw),
+            THREE.MathUtils.degToRad(maxYaw)
+          ),
+        weight *
+          THREE.MathUtils.clamp(
+            pitch,
+            -THREE.MathUtils.degToRad(maxPitch),
+            THREE.MathUtils.degToRad(maxPitch)
+          )
+      );
+    }
+
+    const t =
+      this.smoothing > 0 ? 1 - Math.exp(-delta / (this.smoothing * 2)) : 1;
+    this.headAngles.lerp(this.headTarget, t);
+
+    HEAD_FOLLOW_BONES.forEach(([boneName, share]) => {
+      const bone = humanoid.getNormalizedBoneNode(boneName);
+      if (!bone) return;
+      this.euler.set(
+        -facing * this.headAngles.y * share,
+        this.headAngles.x * share,
+        0
+      );
+      this.offset.setFromEuler(this.euler);
+      this.boneOffsets.apply(bone, this.offset);
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneList, VRMHumanBoneName } from "@pixiv/three-vrm";
+
+// The other side's name for a left/right bone or expression, else null
+const oppositeSide = (name: string): string | null => {
+  if (/^left/.test(name)) return name.replace(/^left/, "right");
+  if (/^right/.test(name)) return name.replace(/^right/, "left");
+  if (/Left$/.test(name)) return name.replace(/Left$/, "Right");
+  if (/Right$/.test(name)) return name.replace(/Right$/, "Left");
+  return null;
+};
+
+/**
+ * Track target swaps for a VRM: each left humanoid bone's node with its
+ * right counterpart, and expressions such as blinkLeft with blinkRight.
+ */
+const createTargetSwaps = (vrm: VRM): Map<string, string> => {
+  const swaps = new Map<string, string>();
+
+  const humanoid = vrm.humanoid;
+  VRMHumanBoneList.forEach((bone) => {
+    const opposite = oppositeSide(bone) as VRMHumanBoneName | null;
+    const node = humanoid?.getNormalizedBoneNode(bone);
+    const oppositeNode = opposite && humanoid?.getNormalizedBoneNode(opposite);
+    if (node && oppositeNode) swaps.set(node.name, oppositeNode.name);
+  });
+
+  const expressionManager = vrm.expressionManager;
+  expressionManager?.expressions.forEach(({ expressionName }) => {
+    const opposite = oppositeSide(expressionName);
+    const trackName = expressionManager.getExpressionTrackName(expressionName);
+    const oppositeTrackName =
+      opposite && expressionManager.getExpressionTrackName(opposite);
+    if (trackName && oppositeTrackName) {
+      swaps.set(trackName, oppositeTrackName);
+    }
+  });
+  return swaps;
+};
+
+const retarget = (trackName: string, swaps: Map<string, string>): string => {
+  // Expression tracks are swapped whole, bone tracks by their node
+  const whole = swaps.get(trackName);
+  if (whole) return whole;
+
+  const { nodeName } = THREE.PropertyBinding.parseTrackName(trackName);
+  const swapped = swaps.get(nodeName);
+  return swapped && trackName.startsWith(nodeName)
+    ? swapped + trackName.slice(nodeName.length)
+    : trackName;
+};
+
+/**
+ * Mirror a clip that targets a VRM's normalized humanoid, so a movement
+ * demonstrated on one side plays on the other. Left and right bones and
+ * expressions trade tracks, and every rotation and translation is reflected
+ * across the body's midline (the YZ plane). Because the normalized rig's
+ * rest pose is the identity everywhere, reflecting local values reflects
+ * the whole pose. Works for any clip the stage prepares: retargeted files,
+ * VRM Animations and solved pose recordings.
+ */
+export function mirrorClip(
+  clip: THREE.AnimationClip,
+  vrm: VRM
+): THREE.AnimationClip {
+  const swaps = createTargetSwaps(vrm);
+
+  const tracks = clip.tracks.map((track) => {
+    const mirrored = track.clone();
+    mirrored.name = retarget(track.name, swaps);
+
+    const values = mirrored.values;
+    if (track.name.endsWith(".quaternion")) {
+      // Reflecting across x negates the y and z parts of a rotation
+      for (let i = 0; i < values.length; i += 4) {
+        values[i + 1] = -values[i + 1];
+        values[i + 2] = -values[i + 2];
+      }
+    } else if (track.name.endsWith(".position")) {
+      for (let i = 0; i < values.length; i += 3) {
+        values[i] = -values[i];
+      }
+    }
+    return mirrored;
+  });
+
+  return new THREE.AnimationClip(clip.name, clip.duration, tracks);
+}
@@ -0,0 +1,326 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+
+/**
+ * Scores a patient's clip against a therapist's reference clip. Both are
+ * sampled on the same VRM and reduced to body-segment directions, which
+ * compare fairly whether a clip twists bones or spreads a turn across the
+ * shoulder and arm. Directions are taken in a frame that follows the hips'
+ * heading, so facing a different way in the room isn't penalized while
+ * leaning and bending still are. Dynamic time warping pairs each reference
+ * frame with the patient frame that matches it best before deviations are
+ * measured, so a slower or hesitant attempt isn't marked down for timing.
+ */
+
+export type MotionSegment = {
+  id: string;
+  label: string;
+  from: VRMHumanBoneName;
+  // Bone the segment points at, or "forward" for the bone's facing
+  to: VRMHumanBoneName | "forward";
+};
+
+export const MOTION_SEGMENTS: MotionSegment[] = [
+  { id: "trunk", label: "Trunk", from: "spine", to: "neck" },
+  { id: "head", label: "Head", from: "head", to: "forward" },
+  {
+    id: "leftUpperArm",
+    label: "Left upper arm",
+    from: "leftUpperArm",
+    to: "leftLowerArm",
+  },
+  {
+    id: "leftForearm",
+    label: "Left forearm",
+    from: "leftLowerArm",
+    to: "leftHand",
+  },
+  {
+    id: "rightUpperArm",
+    label: "Right upper arm",
+    from: "rightUpperArm",
+    to: "rightLowerArm",
+  },
+  {
+    id: "rightForearm",
+    label: "Right forearm",
+    from: "rightLowerArm",
+    to: "rightHand",
+  },
+  {
+    id: "leftThigh",
+    label: "Left thigh",
+    from: "leftUpperLeg",
+    to: "leftLowerLeg",
+  },
+  { id: "leftShin", label: "Left shin", from: "leftLowerLeg", to: "leftFoot" },
+  {
+    id: "rightThigh",
+    label: "Right thigh",
+    from: "rightUpperLeg",
+    to: "rightLowerLeg",
+  },
+  {
+    id: "rightShin",
+    label: "Right shin",
+    from: "rightLowerLeg",
+    to: "rightFoot",
+  },
+];
+
+/** Segment directions per frame of a clip, in the hips' heading frame. */
+export type MotionSamples = {
+  times: number[];
+  segments: MotionSegment[];
+  // directions[frame][segment]
+  directions: THREE.Vector3[][];
+};
+
+/** One pairing of a reference frame with a patient frame. */
+export type AlignedFrame = {
+  referenceTime: number;
+  patientTime: number;
+  // Degrees per segment id
+  deviations: Record<string, number>;
+  meanDeviation: number;
+};
+
+export type SegmentDeviation = {
+  segment: MotionSegment;
+  meanDeviation: number;
+  maxDeviation: number;
+};
+
+export type MotionComparison = {
+  // 0-100, where 100 is a perfect match
+  score: number;
+  meanDeviation: number;
+  // Worst first
+  segments: SegmentDeviation[];
+  worstMoments: AlignedFrame[];
+  frames: AlignedFrame[];
+};
+
+export type CompareOptions = {
+  // Samples per second taken from each clip
+  fps?: number;
+  // Number of worst moments to report
+  momentCount?: number;
+};
+
+const DEFAULT_FPS = 20;
+const DEFAULT_MOMENT_COUNT = 5;
+// Mean deviation in degrees that scores zero
+const ZERO_SCORE_DEVIATION = 60;
+// Reported moments are at least this far apart in reference seconds
+const MOMENT_SEPARATION = 0.5;
+
+const _from = new THREE.Vector3();
+const _to = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _heading = new THREE.Quaternion();
+const _up = new THREE.Vector3(0, 1, 0);
+
+const angleBetween = (a: THREE.Vector3, b: THREE.Vector3): number =>
+  THREE.MathUtils.radToDeg(a.angleTo(b));
+
+/**
+ * Pose the VRM at evenly spaced times through a clip and record segment
+ * directions. Sampling starts from the rest pose, so bones the clip doesn't
+ * animate don't pick up whatever the stage was playing. The stage's own
+ * pose is put back afterwards.
+ */
+export function sampleMotion(
+  clip: THREE.AnimationClip,
+  vrm: VRM,
+  fps = DEFAULT_FPS
+): MotionSamples {
+  const humanoid = vrm.humanoid;
+  if (!humanoid) throw new Error("VRM has no humanoid");
+
+  const hips = humanoid.getNormalizedBoneNode("hips");
+  if (!hips) throw new Error("VRM has no hips bone");
+  const segments = MOTION_SEGMENTS.filter(
+    ({ from, to }) =>
+      humanoid.getNormalizedBoneNode(from) &&
+      (to === "forward" || humanoid.getNormalizedBoneNode(to))
+  );
+  // VRM 0.x normalized rigs face -Z
+  const facing = vrm.meta?.metaVersion === "0" ? -1 : 1;
+
+  const stagePose = humanoid.getNormalizedPose();
+  humanoid.resetNormalizedPose();
+
+  const mixer = new THREE.AnimationMixer(vrm.scene);
+  const action = mixer.clipAction(clip);
+  action.setLoop(THREE.LoopOnce, 1);
+  action.clampWhenFinished = true;
+  action.play();
+
+  const frameCount = Math.max(2, Math.ceil(clip.duration * fps) + 1);
+  const times: number[] = [];
+  const directions: THREE.Vector3[][] = [];
+  try {
+    for (let frame = 0; frame < frameCount; frame++) {
+      const time = (clip.duration * frame) / (frameCount - 1);
+      mixer.setTime(time);
+      humanoid.normalizedHumanBonesRoot.updateMatrixWorld(true);
+
+      // Undo the hips' heading only
+      hips.getWorldQuaternion(_quat);
+      _from.set(0, 0, facing).applyQuaternion(_quat);
+      _heading
+        .setFromAxisAngle(_up, Math.atan2(facing * _from.x, facing * _from.z))
+        .invert();
+
+      times.push(time);
+      directions.push(
+        segments.map(({ from, to }) => {
+          const fromNode = humanoid.getNormalizedBoneNode(from)!;
+          const direction = new THREE.Vector3();
+          if (to === "forward") {
+            fromNode.getWorldQuaternion(_quat);
+            direction.set(0, 0, facing).applyQuaternion(_quat);
+          } else {
+            fromNode.getWorldPosition(_from);
+            humanoid.getNormalizedBoneNode(to)!.getWorldPosition(_to);
+            direction.subVectors(_to, _from);
+          }
+          return direction.applyQuaternion(_heading).normalize();
+        })
+      );
+    }
+  } finally {
+    mixer.stopAllAction();
+    mixer.uncacheRoot(vrm.scene);
+    humanoid.setNormalizedPose(stagePose);
+  }
+
+  return { times, segments, directions };
+}
+
+/**
+ * Classic dynamic time warping. Returns the cheapest monotonic path of
+ * [i, j] index pairs from (0, 0) to (n - 1, m - 1).
+ */
+export function dynamicTimeWarp(
+  n: number,
+  m: number,
+  cost: (i: number, j: number) => number
+): [number, number][] {
+  const total = new Float64Array(n * m).fill(Infinity);
+  const at = (i: number, j: number) => i * m + j;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const best =
+        i === 0 && j === 0
+          ? 0
+          : Math.min(
+              i > 0 ? total[at(i - 1, j)] : Infinity,
+              j > 0 ? total[at(i, j - 1)] : Infinity,
+              i > 0 && j > 0 ? total[at(i - 1, j - 1)] : Infinity
+            );
+      total[at(i, j)] = best + cost(i, j);
+    }
+  }
+
+  // Walk back from the end along the cheapest predecessors
+  const path: [number, number][] = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    const diagonal = i > 0 && j > 0 ? total[at(i - 1, j - 1)] : Infinity;
+    const up = i > 0 ? total[at(i - 1, j)] : Infinity;
+    const left = j > 0 ? total[at(i, j - 1)] : Infinity;
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  return path.reverse();
+}
+
+/** Compare a patient's clip against a reference clip on the same VRM. */
+export function compareMotions(
+  reference: THREE.AnimationClip,
+  patient: THREE.AnimationClip,
+  vrm: VRM,
+  { fps = DEFAULT_FPS, momentCount = DEFAULT_MOMENT_COUNT }: CompareOptions = {}
+): MotionComparison {
+  const referenceSamples = sampleMotion(reference, vrm, fps);
+  const patientSamples = sampleMotion(patient, vrm, fps);
+  const { segments } = referenceSamples;
+  if (segments.length === 0) {
+    throw new Error("The VRM has none of the compared body segments");
+  }
+
+  const deviationsAt = (i: number, j: number): number[] =>
+    segments.map((_, s) =>
+      angleBetween(
+        referenceSamples.directions[i][s],
+        patientSamples.directions[j][s]
+      )
+    );
+  const mean = (values: number[]): number =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const path = dynamicTimeWarp(
+    referenceSamples.times.length,
+    patientSamples.times.length,
+    (i, j) => mean(deviationsAt(i, j))
+  );
+
+  const frames: AlignedFrame[] = path.map(([i, j]) => {
+    const values = deviationsAt(i, j);
+    return {
+      referenceTime: referenceSamples.times[i],
+      patientTime: patientSamples.times[j],
+      deviations: Object.fromEntries(
+        segments.map((segment, s) => [segment.id, values[s]])
+      ),
+      meanDeviation: mean(values),
+    };
+  });
+
+  const segmentDeviations: SegmentDeviation[] = segments
+    .map((segment) => {
+      const values = frames.map((frame) => frame.deviations[segment.id]);
+      return {
+        segment,
+        meanDeviation: mean(values),
+        maxDeviation: Math.max(...values),
+      };
+    })
+    .sort((a, b) => b.meanDeviation - a.meanDeviation);
+
+  const worstMoments: AlignedFrame[] = [];
+  [...frames]
+    .sort((a, b) => b.meanDeviation - a.meanDeviation)
+    .forEach((frame) => {
+      if (worstMoments.length >= momentCount) return;
+      const tooClose = worstMoments.some(
+        (moment) =>
+          Math.abs(moment.referenceTime - frame.referenceTime) <
+          MOMENT_SEPARATION
+      );
+      if (!tooClose) worstMoments.push(frame);
+    });
+
+  const meanDeviation = mean(frames.map((frame) => frame.meanDeviation));
+  const score = Math.round(
+    100 * Math.max(0, 1 - meanDeviation / ZERO_SCORE_DEVIATION)
+  );
+  return {
+    score,
+    meanDeviation,
+    segments: segmentDeviations,
+    worstMoments,
+    frames,
+  };
+}
@@ -0,0 +1,125 @@
+import * as THREE from "three";
+import { AvatarStage } from "./avatar-stage";
+
+export type PlaylistItem = {
+  id: string;
+  url: string;
+  // Times to play the clip; 0 or Infinity loops until the playlist is stopped
+  loops: number;
+  // Seconds to crossfade in from the previous item
+  crossfade: number;
+  // Seconds to hold the last frame before moving on
+  hold: number;
+};
+
+export type PlaylistEventMap = {
+  itemstart: { index: number; item: PlaylistItem };
+  end: object;
+};
+
+let nextItemId = 0;
+
+/** Create a playlist item with the default loop and fade settings. */
+export const createPlaylistItem = (
+  url: string,
+  overrides: Partial<Omit<PlaylistItem, "id" | "url">> = {}
+): PlaylistItem => ({
+  id: `item-${nextItemId++}`,
+  url,
+  loops: 1,
+  crossfade: 0.5,
+  hold: 0,
+  ...overrides,
+});
+
+/**
+ * Plays a queue of animations on a stage, one after another, using the
+ * stage's mixer so consecutive items crossfade into each other.
+ */
+export class AnimationPlaylist extends THREE.EventDispatcher<PlaylistEventMap> {
+  private readonly stage: AvatarStage;
+  // Bumped on every play/stop so stale runs notice they were superseded
+  private runId = 0;
+  private cancelWait: (() => void) | null = null;
+
+  constructor(stage: AvatarStage) {
+    super();
+    this.stage = stage;
+  }
+
+  /**
+   * Play the items in order. Resolves when the last finite item has been
+   * held, when the playlist is stopped or replaced, or when something else
+   * is played on the stage, which ends the playlist.
+   */
+  async play(items: PlaylistItem[]): Promise<void> {
+    this.stop();
+    const runId = ++this.runId;
+
+    // Start fetching every file up front so transitions don't stall
+    items.forEach((item) => {
+      this.stage.loadAnimation(item.url).catch(() => {});
+    });
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const clip = await this.stage.prepareAnimation(item.url);
+      if (runId !== this.runId) return;
+
+      const repetitions = item.loops > 0 ? item.loops : Infinity;
+      const action = this.stage.playClip(clip, {
+        repetitions,
+        crossfade: item.crossfade,
+      });
+      this.dispatchEvent({ type: "itemstart", index, item });
+
+      if (!Number.isFinite(repetitions)) return;
+
+      const finished = await this.waitForFinish(action);
+      if (runId !== this.runId) return;
+      // Playing another clip or model by hand takes over from the playlist
+      if (!finished) break;
+
+      if (item.hold > 0) {
+        await this.wait(item.hold);
+        if (runId !== this.runId) return;
+      }
+    }
+
+    this.dispatchEvent({ type: "end" });
+  }
+
+  /** Abandon the current run. The playing clip is left to the caller. */
+  stop(): void {
+    this.runId++;
+    this.cancelWait?.();
+    this.cancelWait = null;
+  }
+
+  // Resolves false if the avatar moved on before the action finished
+  private waitForFinish(action: THREE.AnimationAction): Promise<boolean> {
+    return new Promise((resolve) => {
+      const unwatch = this.stage.watchAction(action, (finished) => {
+        this.cancelWait = null;
+        resolve(finished);
+      });
+      this.cancelWait = () => {
+        unwatch();
+        this.cancelWait = null;
+        resolve(true);
+      };
+    });
+  }
+
+  private wait(seconds: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timeout = window.setTimeout(() => done(), seconds * 1000);
+      const done = () => {
+        window.clearTimeout(timeout);
+        this.cancelWait = null;
+        resolve();
+      };
+      this.cancelWait = done;
+    });
+  }
+}
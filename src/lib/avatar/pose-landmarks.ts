@@ -0,0 +1,298 @@
+import { getErrorMessage } from "./errors";
+
+/**
+ * Recorded MediaPipe/BlazePose pose estimation: 33 landmarks per frame.
+ * Accepted files:
+ * - JSON: a list of frames, or `{ "fps", "frames": [...] }`. A frame is
+ *   either a list of 33 landmarks or an object with `landmarks` and/or
+ *   `worldLandmarks` plus an optional `time` (seconds) or `timestamp` (ms).
+ *   Landmarks are `{ x, y, z, visibility? }` objects or `[x, y, z, v?]`.
+ * - CSV with a header row, either wide (one row per frame with columns like
+ *   `left_wrist_x` or `x15`) or long (one row per landmark with `frame`,
+ *   `landmark`, `x`, `y`, `z` columns). Time comes from `time` (seconds) or
+ *   `timestamp` (ms) columns when present.
+ * World landmarks (metres, centred on the hips) are preferred over image
+ * landmarks when a frame has both.
+ */
+
+export const POSE_LANDMARK_NAMES = [
+  "nose",
+  "left_eye_inner",
+  "left_eye",
+  "left_eye_outer",
+  "right_eye_inner",
+  "right_eye",
+  "right_eye_outer",
+  "left_ear",
+  "right_ear",
+  "mouth_left",
+  "mouth_right",
+  "left_shoulder",
+  "right_shoulder",
+  "left_elbow",
+  "right_elbow",
+  "left_wrist",
+  "right_wrist",
+  "left_pinky",
+  "right_pinky",
+  "left_index",
+  "right_index",
+  "left_thumb",
+  "right_thumb",
+  "left_hip",
+  "right_hip",
+  "left_knee",
+  "right_knee",
+  "left_ankle",
+  "right_ankle",
+  "left_heel",
+  "right_heel",
+  "left_foot_index",
+  "right_foot_index",
+] as const;
+
+export type PoseLandmarkName = (typeof POSE_LANDMARK_NAMES)[number];
+
+export type PoseLandmark = {
+  x: number;
+  y: number;
+  z: number;
+  // Detection confidence from 0 to 1; 1 when the file has none
+  visibility: number;
+};
+
+export type PoseFrame = {
+  // Seconds from the start of the recording
+  time: number;
+  landmarks: PoseLandmark[];
+};
+
+export type PoseRecording = {
+  frames: PoseFrame[];
+  // True for world landmarks in metres, false for normalized image ones
+  world: boolean;
+};
+
+const LANDMARK_COUNT = POSE_LANDMARK_NAMES.length;
+const DEFAULT_FPS = 30;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number =>
+  typeof value === "number" ? value : Number(value);
+
+const parseLandmark = (value: unknown, path: string): PoseLandmark => {
+  const [x, y, z, visibility] = Array.isArray(value)
+    ? value.map(toNumber)
+    : isRecord(value)
+      ? [value.x, value.y, value.z, value.visibility].map(toNumber)
+      : [];
+  if (![x, y, z].every(Number.isFinite)) {
+    throw new Error(`${path}: landmark needs numeric x, y and z`);
+  }
+  return {
+    x,
+    y,
+    z,
+    visibility: Number.isFinite(visibility) ? visibility : 1,
+  };
+};
+
+const parseLandmarkList = (value: unknown, path: string): PoseLandmark[] => {
+  if (!Array.isArray(value) || value.length < LANDMARK_COUNT) {
+    throw new Error(`${path}: expected ${LANDMARK_COUNT} landmarks`);
+  }
+  return value
+    .slice(0, LANDMARK_COUNT)
+    .map((landmark, index) => parseLandmark(landmark, `${path}[${index}]`));
+};
+
+// Seconds from a frame's own time fields, or null to fall back to fps
+const readTime = (frame: Record<string, unknown>): number | null => {
+  const time = toNumber(frame.time);
+  if (Number.isFinite(time)) return time;
+  const timestamp = toNumber(frame.timestamp ?? frame.timestamp_ms);
+  return Number.isFinite(timestamp) ? timestamp / 1000 : null;
+};
+
+// Shift times to start at zero, filling gaps from the frame rate
+const finishFrames = (
+  frames: { time: number | null; landmarks: PoseLandmark[] }[],
+  fps: number
+): PoseFrame[] => {
+  const first = frames[0]?.time ?? 0;
+  return frames.map((frame, index) => ({
+    time: frame.time !== null ? frame.time - first : index / fps,
+    landmarks: frame.landmarks,
+  }));
+};
+
+const parseJsonRecording = (value: unknown): PoseRecording => {
+  const list = isRecord(value) ? value.frames : value;
+  const fps = isRecord(value) ? toNumber(value.fps) : NaN;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('Expected a list of frames or a "frames" list');
+  }
+
+  // A file missing world landmarks anywhere is read as image landmarks
+  const world = list.every(
+    (frame) => isRecord(frame) && frame.worldLandmarks !== undefined
+  );
+  const frames = list.map((frame, index) => {
+    const path = `Frame ${index}`;
+    if (Array.isArray(frame)) {
+      return { time: null, landmarks: parseLandmarkList(frame, path) };
+    }
+    if (!isRecord(frame)) throw new Error(`${path} must be an object`);
+    return {
+      time: readTime(frame),
+      landmarks: parseLandmarkList(
+        world ? frame.worldLandmarks : frame.landmarks,
+        path
+      ),
+    };
+  });
+
+  return {
+    frames: finishFrames(frames, Number.isFinite(fps) ? fps : DEFAULT_FPS),
+    world,
+  };
+};
+
+// Column lookup for landmark coordinates in a wide CSV header
+const findWideColumns = (header: string[]): number[][] | null => {
+  const columns: number[][] = POSE_LANDMARK_NAMES.map(() => [-1, -1, -1, -1]);
+  const axes = ["x", "y", "z", "visibility"];
+  let found = 0;
+  header.forEach((column, index) => {
+    const match =
+      column.match(/^([a-z_]+)_(x|y|z|visibility)$/) ??
+      column.match(/^(x|y|z|visibility|v)_?(\d+)$/);
+    if (!match) return;
+
+    const [, first, second] = match;
+    const named = POSE_LANDMARK_NAMES.indexOf(first as PoseLandmarkName);
+    const landmark = named >= 0 ? named : Number(second);
+    const axis = axes.indexOf(
+      named >= 0 ? second : first.replace(/^v$/, "visibility")
+    );
+    if (landmark >= 0 && landmark < LANDMARK_COUNT && axis >= 0) {
+      columns[landmark][axis] = index;
+      found++;
+    }
+  });
+  return found > 0 ? columns : null;
+};
+
+const parseCsvRecording = (text: string): PoseRecording => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => line.split(",").map((cell) => cell.trim()));
+  const header = rows.shift()?.map((column) => column.toLowerCase()) ?? [];
+  const column = (...names: string[]) =>
+    header.findIndex((name) => names.includes(name));
+  const timeColumn = column("time", "time_s", "seconds");
+  const timestampColumn = column("timestamp", "timestamp_ms");
+  const cell = (row: string[], index: number, line: number): number => {
+    const value = index >= 0 ? Number(row[index]) : NaN;
+    if (!Number.isFinite(value)) {
+      throw new Error(`Line ${line}: missing or non-numeric value`);
+    }
+    return value;
+  };
+  const readRowTime = (row: string[], line: number): number | null => {
+    if (timeColumn >= 0) return cell(row, timeColumn, line);
+    if (timestampColumn >= 0) return cell(row, timestampColumn, line) / 1000;
+    return null;
+  };
+  // Visibility is optional, and blank or non-numeric cells count as visible
+  const readVisibility = (row: string[], index: number): number => {
+    const value = index >= 0 ? Number(row[index]) : NaN;
+    return Number.isFinite(value) ? value : 1;
+  };
+
+  const frames: { time: number | null; landmarks: PoseLandmark[] }[] = [];
+  const landmarkColumn = column("landmark", "landmark_id", "id", "index");
+  if (landmarkColumn >= 0) {
+    // Long format: group rows by frame
+    const frameColumn = column("frame", "frame_id", "frame_index");
+    const byFrame = new Map<string, (typeof frames)[number]>();
+    rows.forEach((row, index) => {
+      const line = index + 2;
+      const key =
+        frameColumn >= 0 ? row[frameColumn] : String(readRowTime(row, line));
+      const id = row[landmarkColumn].toLowerCase();
+      const landmark = /^\d+$/.test(id)
+        ? Number(id)
+        : POSE_LANDMARK_NAMES.indexOf(id as PoseLandmarkName);
+      if (landmark < 0 || landmark >= LANDMARK_COUNT) {
+        throw new Error(`Line ${line}: unknown landmark "${id}"`);
+      }
+      let frame = byFrame.get(key);
+      if (!frame) {
+        frame = { time: readRowTime(row, line), landmarks: [] };
+        byFrame.set(key, frame);
+        frames.push(frame);
+      }
+      frame.landmarks[landmark] = {
+        x: cell(row, column("x"), line),
+        y: cell(row, column("y"), line),
+        z: cell(row, column("z"), line),
+        visibility: readVisibility(row, column("visibility", "v")),
+      };
+    });
+    frames.forEach((frame, index) => {
+      if (frame.landmarks.filter(Boolean).length < LANDMARK_COUNT) {
+        throw new Error(`Frame ${index}: expected ${LANDMARK_COUNT} landmarks`);
+      }
+    });
+  } else {
+    const columns = findWideColumns(header);
+    if (!columns) {
+      throw new Error(
+        'No landmark columns found; expected "landmark" or "<name>_x" columns'
+      );
+    }
+    rows.forEach((row, index) => {
+      const line = index + 2;
+      frames.push({
+        time: readRowTime(row, line),
+        landmarks: columns.map(([x, y, z, visibility]) => ({
+          x: cell(row, x, line),
+          y: cell(row, y, line),
+          z: cell(row, z, line),
+          visibility: readVisibility(row, visibility),
+        })),
+      });
+    });
+  }
+
+  if (frames.length === 0) throw new Error("No frames found");
+  // CSV exports don't say which kind they hold; image landmarks stay in 0-1
+  const world = frames.some((frame) =>
+    frame.landmarks.some(({ x, y }) => x < -0.1 || y < -0.1)
+  );
+  return { frames: finishFrames(frames, DEFAULT_FPS), world };
+};
+
+/** Parse a JSON or CSV landmark recording. */
+export const parsePoseRecording = (
+  text: string,
+  format: "json" | "csv"
+): PoseRecording => {
+  try {
+    if (format === "csv") return parseCsvRecording(text);
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Invalid JSON: ${getErrorMessage(err)}`);
+    }
+    return parseJsonRecording(value);
+  } catch (err) {
+    throw new Error(`Invalid pose recording: ${getErrorMessage(err)}`);
+  }
+};
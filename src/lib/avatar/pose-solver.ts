@@ -0,0 +1,309 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import {
+  POSE_LANDMARK_NAMES,
+  PoseLandmarkName,
+  PoseRecording,
+} from "./pose-landmarks";
+
+// Landmarks below this visibility keep the bone's previous rotation
+const MIN_VISIBILITY = 0.5;
+// Frames either side averaged to steady estimator jitter
+const SMOOTHING_RADIUS = 2;
+// Share of the torso and head turn taken by the lower bone of each pair
+const SPINE_SHARE = 0.5;
+const NECK_SHARE = 0.5;
+
+// Limb bones aimed from one landmark towards another
+const LIMBS: {
+  bone: VRMHumanBoneName;
+  // Child bone whose rest offset gives the bone's rest direction
+  child: VRMHumanBoneName;
+  from: PoseLandmarkName;
+  to: PoseLandmarkName | [PoseLandmarkName, PoseLandmarkName];
+}[] = [
+  {
+    bone: "leftUpperArm",
+    child: "leftLowerArm",
+    from: "left_shoulder",
+    to: "left_elbow",
+  },
+  {
+    bone: "leftLowerArm",
+    child: "leftHand",
+    from: "left_elbow",
+    to: "left_wrist",
+  },
+  {
+    bone: "leftHand",
+    child: "leftMiddleProximal",
+    from: "left_wrist",
+    to: ["left_index", "left_pinky"],
+  },
+  {
+    bone: "rightUpperArm",
+    child: "rightLowerArm",
+    from: "right_shoulder",
+    to: "right_elbow",
+  },
+  {
+    bone: "rightLowerArm",
+    child: "rightHand",
+    from: "right_elbow",
+    to: "right_wrist",
+  },
+  {
+    bone: "rightHand",
+    child: "rightMiddleProximal",
+    from: "right_wrist",
+    to: ["right_index", "right_pinky"],
+  },
+  {
+    bone: "leftUpperLeg",
+    child: "leftLowerLeg",
+    from: "left_hip",
+    to: "left_knee",
+  },
+  {
+    bone: "leftLowerLeg",
+    child: "leftFoot",
+    from: "left_knee",
+    to: "left_ankle",
+  },
+  {
+    bone: "leftFoot",
+    child: "leftToes",
+    from: "left_ankle",
+    to: "left_foot_index",
+  },
+  {
+    bone: "rightUpperLeg",
+    child: "rightLowerLeg",
+    from: "right_hip",
+    to: "right_knee",
+  },
+  {
+    bone: "rightLowerLeg",
+    child: "rightFoot",
+    from: "right_knee",
+    to: "right_ankle",
+  },
+  {
+    bone: "rightFoot",
+    child: "rightToes",
+    from: "right_ankle",
+    to: "right_foot_index",
+  },
+];
+
+const landmarkIndex = (name: PoseLandmarkName): number =>
+  POSE_LANDMARK_NAMES.indexOf(name);
+
+// Rotation whose axes are `right`, `up` and their forward cross product
+const basisRotation = (
+  right: THREE.Vector3,
+  up: THREE.Vector3,
+  target: THREE.Quaternion
+): THREE.Quaternion => {
+  const x = right.clone().normalize();
+  const z = new THREE.Vector3().crossVectors(x, up).normalize();
+  const y = new THREE.Vector3().crossVectors(z, x);
+  return target.setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z));
+};
+
+/**
+ * Convert a landmark recording into positions in the VRM's space, smoothed
+ * over neighbouring frames. MediaPipe has y down and z towards the camera;
+ * the subject faces the camera like the avatar faces the viewer.
+ */
+const toModelSpace = (
+  recording: PoseRecording,
+  facing: number
+): { positions: THREE.Vector3[][]; visible: boolean[][] } => {
+  const { frames } = recording;
+  const raw = frames.map((frame) =>
+    frame.landmarks.map(
+      ({ x, y, z }) =>
+        new THREE.Vector3(
+          facing * (recording.world ? x : x - 0.5),
+          recording.world ? -y : -(y - 0.5),
+          -facing * z
+        )
+    )
+  );
+
+  const positions = raw.map((landmarks, frameIndex) =>
+    landmarks.map((_, landmark) => {
+      const sum = new THREE.Vector3();
+      let count = 0;
+      for (
+        let i = Math.max(0, frameIndex - SMOOTHING_RADIUS);
+        i <= Math.min(raw.length - 1, frameIndex + SMOOTHING_RADIUS);
+        i++
+      ) {
+        sum.add(raw[i][landmark]);
+        count++;
+      }
+      return sum.divideScalar(count);
+    })
+  );
+  const visible = frames.map((frame) =>
+    frame.landmarks.map(({ visibility }) => visibility >= MIN_VISIBILITY)
+  );
+  return { positions, visible };
+};
+
+/**
+ * Solve VRM humanoid rotations from pose landmarks and bake them into a
+ * clip on the normalized rig, ready for the stage's mixer.
+ *
+ * The normalized rig's rest pose is identity in world space, so each bone's
+ * world rotation is the turn from its rest direction to the direction
+ * between its landmarks, and local rotations follow from the parent's. The
+ * hips and chest are oriented from the hip and shoulder lines, the head from
+ * the ears and eyes. Limb twist isn't observable from landmarks and is left
+ * at rest. The hips stay in place.
+ */
+export function solvePoseClip(
+  recording: PoseRecording,
+  vrm: VRM
+): THREE.AnimationClip {
+  const humanoid = vrm.humanoid;
+  if (!humanoid) throw new Error("VRM has no humanoid");
+
+  // VRM 0.x normalized rigs face -Z
+  const facing = vrm.meta?.metaVersion === "0" ? -1 : 1;
+  const { positions, visible } = toModelSpace(recording, facing);
+  const restPose = humanoid.normalizedRestPose;
+
+  const restDirection = (bone: VRMHumanBoneName): THREE.Vector3 | null => {
+    const position = restPose[bone]?.position;
+    if (!position) return null;
+    const direction = new THREE.Vector3().fromArray(position);
+    return direction.lengthSq() > 0 ? direction.normalize() : null;
+  };
+
+  // Solved world rotation per bone for every frame
+  const solved = new Map<VRMHumanBoneName, THREE.Quaternion[]>();
+  const track = (bone: VRMHumanBoneName): THREE.Quaternion[] => {
+    let rotations = solved.get(bone);
+    if (!rotations) {
+      rotations = [];
+      solved.set(bone, rotations);
+    }
+    return rotations;
+  };
+  // Holds the previous frame's rotation when landmarks are unreliable
+  const hold = (bone: VRMHumanBoneName, frame: number): THREE.Quaternion =>
+    track(bone)[frame - 1]?.clone() ?? new THREE.Quaternion();
+
+  const swing = new THREE.Vector3();
+  const right = new THREE.Vector3();
+  const up = new THREE.Vector3();
+
+  positions.forEach((landmarks, frame) => {
+    const at = (name: PoseLandmarkName) => landmarks[landmarkIndex(name)];
+    const seen = (...names: PoseLandmarkName[]) =>
+      names.every((name) => visible[frame][landmarkIndex(name)]);
+    const mid = (a: PoseLandmarkName, b: PoseLandmarkName) =>
+      new THREE.Vector3().addVectors(at(a), at(b)).multiplyScalar(0.5);
+
+    // Hips from the hip line, chest from the shoulder line
+    const hipCenter = mid("left_hip", "right_hip");
+    const shoulderCenter = mid("left_shoulder", "right_shoulder");
+    up.subVectors(shoulderCenter, hipCenter);
+    const hips = seen("left_hip", "right_hip")
+      ? basisRotation(
+          right
+            .subVectors(at("left_hip"), at("right_hip"))
+            .multiplyScalar(facing),
+          up,
+          new THREE.Quaternion()
+        )
+      : hold("hips", frame);
+    const chest = seen("left_shoulder", "right_shoulder")
+      ? basisRotation(
+          right
+            .subVectors(at("left_shoulder"), at("right_shoulder"))
+            .multiplyScalar(facing),
+          up,
+          new THREE.Quaternion()
+        )
+      : hold("chest", frame);
+    track("hips").push(hips);
+    track("spine").push(hips.clone().slerp(chest, SPINE_SHARE));
+    track("chest").push(chest);
+
+    // Head from the ear line, pitched by the eyes in front of it
+    let head = hold("head", frame);
+    if (seen("left_ear", "right_ear", "left_eye", "right_eye")) {
+      right.subVectors(at("left_ear"), at("right_ear")).multiplyScalar(facing);
+      const forward = mid("left_eye", "right_eye")
+        .sub(mid("left_ear", "right_ear"))
+        .multiplyScalar(facing);
+      up.crossVectors(forward, right);
+      head = basisRotation(right, up, new THREE.Quaternion());
+    }
+    track("neck").push(chest.clone().slerp(head, NECK_SHARE));
+    track("head").push(head);
+
+    LIMBS.forEach(({ bone, child, from, to }) => {
+      const rest = restDirection(child);
+      const ends = Array.isArray(to) ? to : [to];
+      if (!rest || !seen(from, ...ends)) {
+        track(bone).push(hold(bone, frame));
+        return;
+      }
+      const end = Array.isArray(to) ? mid(to[0], to[1]) : at(to);
+      swing.subVectors(end, at(from)).normalize();
+      track(bone).push(new THREE.Quaternion().setFromUnitVectors(rest, swing));
+    });
+  });
+
+  // World rotations to local ones, relative to the nearest solved ancestor
+  const times = recording.frames.map((frame) => frame.time);
+  const tracks: THREE.KeyframeTrack[] = [];
+  const parentWorld = new THREE.Quaternion();
+  solved.forEach((rotations, bone) => {
+    const node = humanoid.getNormalizedBoneNode(bone);
+    if (!node) return;
+
+    let parent = node.parent;
+    let parentBone: VRMHumanBoneName | null = null;
+    while (parent && !parentBone) {
+      parentBone =
+        [...solved.keys()].find(
+          (name) => humanoid.getNormalizedBoneNode(name) === parent
+        ) ?? null;
+      parent = parent.parent;
+    }
+
+    const values: number[] = [];
+    const previous = new THREE.Quaternion();
+    rotations.forEach((world, frame) => {
+      const parentRotation = parentBone && solved.get(parentBone)?.[frame];
+      parentWorld.identity();
+      if (parentRotation) parentWorld.copy(parentRotation);
+      const local = parentWorld.invert().multiply(world);
+      // Keep neighbouring keys on the same hemisphere for interpolation
+      if (frame > 0 && local.dot(previous) < 0) {
+        local.set(-local.x, -local.y, -local.z, -local.w);
+      }
+      previous.copy(local);
+      local.toArray(values, frame * 4);
+    });
+    tracks.push(
+      new THREE.QuaternionKeyframeTrack(
+        `${node.name}.quaternion`,
+        times,
+        values
+      )
+    );
+  });
+
+  const duration = times[times.length - 1] ?? 0;
+  if (tracks.length === 0 || duration <= 0) {
+    throw new Error("The pose recording needs at least two frames");
+  }
+  return new THREE.AnimationClip("pose", duration, tracks);
+}
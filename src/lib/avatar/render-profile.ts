@@ -0,0 +1,379 @@
+import { RENDER_CONFIG, RenderConfig } from "./config";
+import { getErrorMessage } from "./errors";
+
+/**
+ * Render profiles: per-deployment JSON that overrides parts of
+ * RENDER_CONFIG, such as branding colours, camera framing and kiosk
+ * lock-down. Settings are layered, later layers winning:
+ *
+ * 1. RENDER_CONFIG
+ * 2. The profile file, /profiles/default.json or the one named by `?profile=`
+ * 3. Settings saved on this device from the settings panel
+ * 4. URL query parameters named after a setting, e.g. `?camera.fov=40`
+ *
+ * A profile with `lockSettings` ignores layers 3 and 4, so kiosks can't be
+ * changed from the device. The matching JSON Schema lives at
+ * /schemas/render-profile.schema.json.
+ */
+
+type FieldSpec =
+  | { type: "color" }
+  | { type: "number"; min: number; max: number }
+  | { type: "boolean" }
+  | { type: "vector" }
+  | { type: "strings" };
+
+// Settings a profile may override, by their dotted path in RenderConfig
+export const RENDER_PROFILE_FIELDS = {
+  backgroundColor: { type: "color" },
+  "camera.fov": { type: "number", min: 10, max: 120 },
+  "camera.position": { type: "vector" },
+  "camera.lookAt": { type: "vector" },
+  "hemisphereLight.skyColor": { type: "color" },
+  "hemisphereLight.groundColor": { type: "color" },
+  "hemisphereLight.intensity": { type: "number", min: 0, max: 10 },
+  "directionalLight.color": { type: "color" },
+  "directionalLight.intensity": { type: "number", min: 0, max: 10 },
+  "directionalLight.position": { type: "vector" },
+  "directionalLight.shadowMapSize": { type: "number", min: 256, max: 8192 },
+  "ambientLight.color": { type: "color" },
+  "ambientLight.intensity": { type: "number", min: 0, max: 10 },
+  "wallMaterial.color": { type: "color" },
+  "wallMaterial.roughness": { type: "number", min: 0, max: 1 },
+  "wallMaterial.metalness": { type: "number", min: 0, max: 1 },
+  shadowBias: { type: "number", min: -0.01, max: 0.01 },
+  showControls: { type: "boolean" },
+  disableCameraRotation: { type: "boolean" },
+  lockSettings: { type: "boolean" },
+  cameraTransition: { type: "number", min: 0, max: 10 },
+  expressionWeight: { type: "number", min: 0, max: 1 },
+  expressions: { type: "strings" },
+  "idleLayer.enabled": { type: "boolean" },
+} as const satisfies Record<string, FieldSpec>;
+
+export type RenderProfileKey = keyof typeof RENDER_PROFILE_FIELDS;
+
+type Vector3Value = { x: number; y: number; z: number };
+// Colours are "#rrggbb" strings
+export type RenderProfileValue =
+  string | number | boolean | Vector3Value | string[];
+
+export type RenderProfile = Partial<
+  Record<RenderProfileKey, RenderProfileValue>
+>;
+
+// Undefined removes a setting from the layer
+export type RenderSettingChanges = Partial<
+  Record<RenderProfileKey, RenderProfileValue | undefined>
+>;
+
+export type RenderProfileIssue = {
+  // JSON pointer-style location, e.g. "/camera/fov"
+  path: string;
+  message: string;
+};
+
+export type RenderSettings = {
+  config: RenderConfig;
+  profile: RenderProfile;
+  device: RenderProfile;
+  url: RenderProfile;
+  // The profile ignores device and URL settings
+  locked: boolean;
+};
+
+export const DEFAULT_RENDER_PROFILE_URL = "/profiles/default.json";
+
+const DEVICE_STORAGE_KEY = "mr-rehab-3d:render-settings";
+// Query parameters that aren't settings
+const PROFILE_PARAM = "profile";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isProfileKey = (key: string): key is RenderProfileKey =>
+  Object.hasOwn(RENDER_PROFILE_FIELDS, key);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// The reason a value doesn't suit a field, or null if it does
+const checkValue = (spec: FieldSpec, value: unknown): string | null => {
+  switch (spec.type) {
+    case "color":
+      return typeof value === "string" && HEX_COLOR.test(value)
+        ? null
+        : 'Must be a colour like "#a0c4ff"';
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "Must be a number";
+      }
+      return value < spec.min || value > spec.max
+        ? `Must be between ${spec.min} and ${spec.max}`
+        : null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "Must be true or false";
+    case "vector":
+      return isRecord(value) &&
+        ["x", "y", "z"].every(
+          (axis) =>
+            typeof value[axis] === "number" && Number.isFinite(value[axis])
+        )
+        ? null
+        : "Must be an object with numbers x, y and z";
+    case "strings":
+      return Array.isArray(value) &&
+        value.length > 0 &&
+        value.every((item) => typeof item === "string" && item !== "")
+        ? null
+        : "Must be a list of names";
+  }
+};
+
+/**
+ * Check an untrusted profile document, flattening its nested settings to
+ * dotted keys. Returns every problem found rather than stopping at one.
+ */
+export const validateRenderProfile = (
+  value: unknown
+): { profile: RenderProfile; errors: RenderProfileIssue[] } => {
+  const profile: RenderProfile = {};
+  const errors: RenderProfileIssue[] = [];
+  if (!isRecord(value)) {
+    return {
+      profile,
+      errors: [{ path: "/", message: "Profile must be a JSON object" }],
+    };
+  }
+
+  const visit = (record: Record<string, unknown>, prefix: string): void => {
+    Object.entries(record).forEach(([name, field]) => {
+      if (!prefix && name === "$schema") return;
+      const key = prefix ? `${prefix}.${name}` : name;
+      const path = `/${key.replaceAll(".", "/")}`;
+      if (isProfileKey(key)) {
+        const problem = checkValue(RENDER_PROFILE_FIELDS[key], field);
+        if (problem) errors.push({ path, message: problem });
+        else profile[key] = field as RenderProfileValue;
+      } else if (
+        isRecord(field) &&
+        Object.keys(RENDER_PROFILE_FIELDS).some((known) =>
+          known.startsWith(`${key}.`)
+        )
+      ) {
+        visit(field, key);
+      } else {
+        errors.push({ path, message: "Unknown setting" });
+      }
+    });
+  };
+  visit(value, "");
+
+  return { profile, errors };
+};
+
+const formatIssues = (issues: RenderProfileIssue[]): string =>
+  issues.map(({ path, message }) => `${path}: ${message}`).join("; ");
+
+/** Fetch a profile file. A missing default profile means no overrides. */
+export const loadRenderProfile = async (
+  url: string = DEFAULT_RENDER_PROFILE_URL
+): Promise<RenderProfile> => {
+  let value: unknown;
+  try {
+    const response = await fetch(url);
+    if (response.status === 404 && url === DEFAULT_RENDER_PROFILE_URL) {
+      return {};
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    value = await response.json();
+  } catch (err) {
+    throw new Error(`Failed to load render profile: ${getErrorMessage(err)}`);
+  }
+
+  const { profile, errors } = validateRenderProfile(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid render profile ${url}: ${formatIssues(errors)}`);
+  }
+  return profile;
+};
+
+// "kiosk" -> "/profiles/kiosk.json". Only names are accepted, so a link
+// can't point the app at a profile hosted elsewhere
+const PROFILE_NAME = /^[\w-]+$/;
+const resolveProfileUrl = (name: string): string => {
+  if (PROFILE_NAME.test(name)) return `/profiles/${name}.json`;
+  console.warn(
+    `Ignoring profile "${name}": use the name of a file in /profiles`
+  );
+  return DEFAULT_RENDER_PROFILE_URL;
+};
+
+// Query strings only carry text, so read it as the field's type
+const parseParam = (spec: FieldSpec, text: string): unknown => {
+  switch (spec.type) {
+    case "color":
+      return text.startsWith("#") ? text : `#${text}`;
+    case "number":
+      return text.trim() === "" ? NaN : Number(text);
+    case "boolean":
+      return text === "" || text === "true" || text === "1"
+        ? true
+        : text === "false" || text === "0"
+          ? false
+          : text;
+    case "vector": {
+      const [x, y, z] = text.split(",").map(Number);
+      return { x, y, z };
+    }
+    case "strings":
+      return text.split(",").filter(Boolean);
+  }
+};
+
+/**
+ * Read the profile to load and setting overrides from a query string, e.g.
+ * `?profile=kiosk&backgroundColor=eef6ff&camera.position=0,1.4,1.6`.
+ * Unusable parameters are skipped with a warning.
+ */
+export const parseRenderUrl = (
+  search: string
+): { profileUrl: string; overrides: RenderProfile } => {
+  const params = new URLSearchParams(search);
+  const profileName = params.get(PROFILE_PARAM);
+  const overrides: RenderProfile = {};
+
+  params.forEach((text, key) => {
+    if (key === PROFILE_PARAM || !isProfileKey(key)) return;
+    const spec = RENDER_PROFILE_FIELDS[key];
+    const value = parseParam(spec, text);
+    const problem = checkValue(spec, value);
+    if (problem) {
+      console.warn(`Ignoring URL setting ${key}=${text}: ${problem}`);
+      return;
+    }
+    overrides[key] = value as RenderProfileValue;
+  });
+
+  return {
+    profileUrl: profileName
+      ? resolveProfileUrl(profileName)
+      : DEFAULT_RENDER_PROFILE_URL,
+    overrides,
+  };
+};
+
+/** Settings saved on this device, dropping any that no longer validate. */
+export const loadDeviceProfile = (): RenderProfile => {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = window.localStorage.getItem(DEVICE_STORAGE_KEY);
+    if (!stored) return {};
+    const value: unknown = JSON.parse(stored);
+    const profile: RenderProfile = {};
+    if (isRecord(value)) {
+      Object.entries(value).forEach(([key, field]) => {
+        if (!isProfileKey(key)) return;
+        if (checkValue(RENDER_PROFILE_FIELDS[key], field)) return;
+        profile[key] = field as RenderProfileValue;
+      });
+    }
+    return profile;
+  } catch (e) {
+    console.warn("Ignoring unreadable render settings:", e);
+    return {};
+  }
+};
+
+export const saveDeviceProfile = (profile: RenderProfile): void => {
+  try {
+    if (Object.keys(profile).length === 0) {
+      window.localStorage.removeItem(DEVICE_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(DEVICE_STORAGE_KEY, JSON.stringify(profile));
+    }
+  } catch (err) {
+    throw new Error(`Failed to save render settings: ${getErrorMessage(err)}`);
+  }
+};
+
+const toColorString = (color: number): string =>
+  `#${color.toString(16).padStart(6, "0")}`;
+
+/** A setting's current value in profile form, e.g. colours as "#rrggbb". */
+export const getRenderSetting = (
+  config: RenderConfig,
+  key: RenderProfileKey
+): RenderProfileValue => {
+  const value = key
+    .split(".")
+    .reduce<unknown>(
+      (node, name) => (isRecord(node) ? node[name] : undefined),
+      config
+    );
+  return RENDER_PROFILE_FIELDS[key].type === "color"
+    ? toColorString(value as number)
+    : (value as RenderProfileValue);
+};
+
+/**
+ * Every profile setting of a config as a profile document, e.g. to save
+ * the settings tuned on one device as a deployment's profile.
+ */
+export const toRenderProfileDocument = (
+  config: RenderConfig
+): Record<string, unknown> => {
+  const document: Record<string, unknown> = {
+    $schema: "/schemas/render-profile.schema.json",
+  };
+  (Object.keys(RENDER_PROFILE_FIELDS) as RenderProfileKey[]).forEach((key) => {
+    const names = key.split(".");
+    const last = names.pop() as string;
+    const parent = names.reduce<Record<string, unknown>>((node, name) => {
+      if (!isRecord(node[name])) node[name] = {};
+      return node[name] as Record<string, unknown>;
+    }, document);
+    parent[last] = getRenderSetting(config, key);
+  });
+  return document;
+};
+
+/** A copy of `base` with each profile's settings applied in turn. */
+export const applyRenderProfiles = (
+  base: RenderConfig,
+  profiles: RenderProfile[]
+): RenderConfig => {
+  const config = structuredClone(base);
+  profiles.forEach((profile) => {
+    Object.entries(profile).forEach(([key, value]) => {
+      if (!isProfileKey(key) || value === undefined) return;
+      const names = key.split(".");
+      const last = names.pop() as string;
+      const parent = names.reduce<Record<string, unknown>>(
+        (node, name) => node[name] as Record<string, unknown>,
+        config as unknown as Record<string, unknown>
+      );
+      parent[last] =
+        RENDER_PROFILE_FIELDS[key].type === "color"
+          ? parseInt((value as string).slice(1), 16)
+          : structuredClone(value);
+    });
+  });
+  return config;
+};
+
+/** Combine the layers into the config to render with. */
+export const resolveRenderSettings = (
+  profile: RenderProfile,
+  device: RenderProfile,
+  url: RenderProfile,
+  base: RenderConfig = RENDER_CONFIG
+): RenderSettings => {
+  const locked = profile.lockSettings === true;
+  const config = applyRenderProfiles(
+    base,
+    locked ? [profile] : [profile, device, url]
+  );
+  // Only the profile itself can lock or unlock the settings
+  config.lockSettings = locked;
+  return { config, profile, device, url, locked };
+};
@@ -0,0 +1,169 @@
+import * as THREE from "three";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+
+export type RepTarget = {
+  reps: number;
+  sets: number;
+};
+
+export type RepCounterState = {
+  // Clip being counted, named after its file URL
+  clipName: string | null;
+  // Reps completed in the current set
+  reps: number;
+  // 1-based set in progress; equals target.sets + 1 once done
+  set: number;
+  target: RepTarget | null;
+  done: boolean;
+};
+
+export type RepCounterEventMap = {
+  change: { state: RepCounterState };
+  setcomplete: { state: RepCounterState };
+  targetreached: { state: RepCounterState };
+};
+
+const initialState = (
+  clipName: string | null,
+  target: RepTarget | null
+): RepCounterState => ({
+  clipName,
+  reps: 0,
+  set: 1,
+  target,
+  done: false,
+});
+
+/**
+ * Counts repetitions of the playing clip from the mixer's loop and finished
+ * events: every wrap of a looping action is one rep. Progress is kept per
+ * clip, so returning to a clip after a rest animation carries on where it
+ * left off and sets keep adding up. A clip that reached its target starts
+ * over when played again.
+ */
+export class RepCounter extends THREE.EventDispatcher<RepCounterEventMap> {
+  private readonly stage: AvatarStage;
+  private readonly targets = new Map<string, RepTarget>();
+  private readonly progress = new Map<string, RepCounterState>();
+  private currentAction: THREE.AnimationAction | null = null;
+  private currentState: RepCounterState = initialState(null, null);
+
+  constructor(stage: AvatarStage) {
+    super();
+    this.stage = stage;
+    stage.addEventListener("actionstart", this.handleActionStart);
+    stage.addEventListener("actionreplace", this.handleActionReplace);
+    stage.addEventListener("actionloop", this.handleActionLoop);
+    stage.addEventListener("actionfinished", this.handleActionFinished);
+  }
+
+  get state(): RepCounterState {
+    return this.currentState;
+  }
+
+  /** Set or clear the reps-per-set and set count for a clip URL. */
+  setTarget(clipName: string, target: RepTarget | null): void {
+    if (target) {
+      this.targets.set(clipName, target);
+    } else {
+      this.targets.delete(clipName);
+    }
+    this.progress.delete(clipName);
+    if (clipName === this.currentState.clipName) {
+      this.update({ target, done: false });
+    }
+  }
+
+  getTarget(clipName: string): RepTarget | null {
+    return this.targets.get(clipName) ?? null;
+  }
+
+  /** Start counting every clip from zero. */
+  reset(): void {
+    const { clipName } = this.currentState;
+    this.progress.clear();
+    this.currentState = initialState(clipName, this.getTargetFor(clipName));
+    this.emitChange();
+  }
+
+  dispose(): void {
+    this.stage.removeEventListener("actionstart", this.handleActionStart);
+    this.stage.removeEventListener("actionreplace", this.handleActionReplace);
+    this.stage.removeEventListener("actionloop", this.handleActionLoop);
+    this.stage.removeEventListener("actionfinished", this.handleActionFinished);
+  }
+
+  private getTargetFor(clipName: string | null): RepTarget | null {
+    return clipName ? this.getTarget(clipName) : null;
+  }
+
+  private countRep(): void {
+    const { target } = this.currentState;
+    if (this.currentState.done) return;
+
+    const reps = this.currentState.reps + 1;
+    if (!target || reps < target.reps) {
+      this.update({ reps });
+      return;
+    }
+
+    // Set complete
+    const set = this.currentState.set + 1;
+    const done = set > target.sets;
+    this.update({ reps: done ? reps : 0, set, done });
+    this.dispatchEvent({ type: "setcomplete", state: this.currentState });
+    if (done) {
+      this.dispatchEvent({ type: "targetreached", state: this.currentState });
+    }
+  }
+
+  private update(changes: Partial<RepCounterState>): void {
+    this.currentState = { ...this.currentState, ...changes };
+    this.emitChange();
+  }
+
+  private emitChange(): void {
+    this.dispatchEvent({ type: "change", state: this.currentState });
+  }
+
+  private handleActionStart = ({
+    action,
+  }: AvatarStageEventMap["actionstart"]): void => {
+    this.currentAction = action;
+    const clipName = action.getClip().name;
+    if (clipName === this.currentState.clipName && !this.currentState.done) {
+      return;
+    }
+
+    if (this.currentState.clipName) {
+      this.progress.set(this.currentState.clipName, this.currentState);
+    }
+    const saved = this.progress.get(clipName);
+    this.currentState =
+      saved && !saved.done
+        ? saved
+        : initialState(clipName, this.getTargetFor(clipName));
+    this.emitChange();
+  };
+
+  // The replacement carries on the same set, so keep counting
+  private handleActionReplace = ({
+    previous,
+    action,
+  }: AvatarStageEventMap["actionreplace"]): void => {
+    if (previous === this.currentAction) this.currentAction = action;
+  };
+
+  private handleActionLoop = ({
+    action,
+  }: AvatarStageEventMap["actionloop"]): void => {
+    if (action === this.currentAction) this.countRep();
+  };
+
+  // Finite actions report their last rep as "finished" rather than "loop"
+  private handleActionFinished = ({
+    action,
+  }: AvatarStageEventMap["actionfinished"]): void => {
+    if (action === this.currentAction) this.countRep();
+  };
+}
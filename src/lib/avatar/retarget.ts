@@ -0,0 +1,176 @@
+import * as THREE from "three";
+import { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
+import { BoneResolver } from "./bone-maps";
+
+const _vecA = new THREE.Vector3();
+const _vecB = new THREE.Vector3();
+const _vecC = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+
+// Length of the upper leg plus lower leg, measured in world space
+const measureLegLength = (
+  upperLeg: THREE.Object3D | null | undefined,
+  lowerLeg: THREE.Object3D | null | undefined,
+  foot: THREE.Object3D | null | undefined
+): number | null => {
+  if (!upperLeg || !lowerLeg || !foot) return null;
+  upperLeg.getWorldPosition(_vecA);
+  lowerLeg.getWorldPosition(_vecB);
+  foot.getWorldPosition(_vecC);
+  const length = _vecA.distanceTo(_vecB) + _vecB.distanceTo(_vecC);
+  return length > 0 ? length : null;
+};
+
+/**
+ * Scale factor from source rig world units to VRM model units, based on
+ * leg length so that hips translation keeps the feet on the floor.
+ * Falls back to hips height when either rig has no complete left leg.
+ */
+const computeHipsPositionScale = (
+  sourceBones: Map<VRMHumanBoneName, THREE.Object3D>,
+  vrm: VRM
+): number => {
+  const humanoid = vrm.humanoid;
+
+  const sourceLeg = measureLegLength(
+    sourceBones.get("leftUpperLeg"),
+    sourceBones.get("leftLowerLeg"),
+    sourceBones.get("leftFoot")
+  );
+  const vrmLeg = measureLegLength(
+    humanoid.getNormalizedBoneNode("leftUpperLeg"),
+    humanoid.getNormalizedBoneNode("leftLowerLeg"),
+    humanoid.getNormalizedBoneNode("leftFoot")
+  );
+  if (sourceLeg && vrmLeg) return vrmLeg / sourceLeg;
+
+  const sourceHips = sourceBones.get("hips");
+  const vrmHips = humanoid.getNormalizedBoneNode("hips");
+  if (!sourceHips || !vrmHips) return 1;
+
+  const sourceHipsHeight = sourceHips.getWorldPosition(_vecA).y;
+  const vrmHipsHeight =
+    vrmHips.getWorldPosition(_vecA).y - vrm.scene.getWorldPosition(_vecB).y;
+  return sourceHipsHeight > 0 ? vrmHipsHeight / sourceHipsHeight : 1;
+};
+
+/**
+ * Retarget a clip authored for `sourceRoot`'s skeleton onto the VRM's
+ * normalized humanoid rig.
+ *
+ * Rotations are converted from the source's local bone space into deltas
+ * from its rest pose, which the normalized rig expects since its rest pose
+ * is identity in world space. Hips translation is taken to world space and
+ * rescaled by leg length. Both rigs must be in their rest pose when this runs.
+ */
+export function retargetClip(
+  clip: THREE.AnimationClip,
+  sourceRoot: THREE.Object3D,
+  vrm: VRM,
+  resolveBone: BoneResolver
+): THREE.AnimationClip {
+  const humanoid = vrm.humanoid;
+  if (!humanoid) throw new Error("VRM has no humanoid");
+
+  sourceRoot.updateMatrixWorld(true);
+  vrm.scene.updateMatrixWorld(true);
+
+  // First node per humanoid bone, for measuring the source skeleton
+  const sourceBones = new Map<VRMHumanBoneName, THREE.Object3D>();
+  sourceRoot.traverse((object) => {
+    const boneName = resolveBone(object.name);
+    if (boneName && !sourceBones.has(boneName)) {
+      sourceBones.set(boneName, object);
+    }
+  });
+
+  const hipsPositionScale = computeHipsPositionScale(sourceBones, vrm);
+  // VRM 0.x normalized rigs face -Z while source rigs face +Z
+  const isVRM0 = vrm.meta?.metaVersion === "0";
+
+  const tracks: THREE.KeyframeTrack[] = [];
+  const mappedTrackNames = new Set<string>();
+  const restRotationInverse = new THREE.Quaternion();
+  const parentRestWorldRotation = new THREE.Quaternion();
+
+  clip.tracks.forEach((track) => {
+    // Track names are "nodeName.property"
+    const separator = track.name.lastIndexOf(".");
+    if (separator < 0) return;
+    const sourceNodeName = track.name.slice(0, separator);
+    const property = track.name.slice(separator + 1);
+
+    const boneName = resolveBone(sourceNodeName);
+    if (!boneName) return;
+
+    const sourceNode = sourceRoot.getObjectByName(sourceNodeName);
+    const targetNode = humanoid.getNormalizedBoneNode(boneName);
+    if (!sourceNode || !targetNode) return;
+
+    const trackName = `${targetNode.name}.${property}`;
+    if (mappedTrackNames.has(trackName)) return;
+
+    if (track instanceof THREE.QuaternionKeyframeTrack) {
+      sourceNode.getWorldQuaternion(restRotationInverse).invert();
+      if (sourceNode.parent) {
+        sourceNode.parent.getWorldQuaternion(parentRestWorldRotation);
+      } else {
+        parentRestWorldRotation.identity();
+      }
+
+      const values: number[] = new Array(track.values.length);
+      for (let i = 0; i < track.values.length; i += 4) {
+        _quat
+          .fromArray(track.values, i)
+          .premultiply(parentRestWorldRotation)
+          .multiply(restRotationInverse);
+        if (isVRM0) {
+          _quat.x = -_quat.x;
+          _quat.z = -_quat.z;
+        }
+        _quat.toArray(values, i);
+      }
+
+      tracks.push(
+        new THREE.QuaternionKeyframeTrack(
+          trackName,
+          Array.from(track.times),
+          values
+        )
+      );
+      mappedTrackNames.add(trackName);
+    } else if (
+      track instanceof THREE.VectorKeyframeTrack &&
+      property === "position" &&
+      boneName === "hips"
+    ) {
+      const values: number[] = new Array(track.values.length);
+      for (let i = 0; i < track.values.length; i += 3) {
+        _vecA.fromArray(track.values, i);
+        // Keyframes are in the parent's space; take them to world space
+        if (sourceNode.parent) sourceNode.parent.localToWorld(_vecA);
+        _vecA.multiplyScalar(hipsPositionScale);
+        if (isVRM0) {
+          _vecA.x = -_vecA.x;
+          _vecA.z = -_vecA.z;
+        }
+        _vecA.toArray(values, i);
+      }
+
+      tracks.push(
+        new THREE.VectorKeyframeTrack(
+          trackName,
+          Array.from(track.times),
+          values
+        )
+      );
+      mappedTrackNames.add(trackName);
+    }
+  });
+
+  if (tracks.length === 0) {
+    throw new Error("No tracks could be mapped to the VRM humanoid");
+  }
+
+  return new THREE.AnimationClip(clip.name, clip.duration, tracks);
+}
@@ -0,0 +1,289 @@
+import * as THREE from "three";
+import { AvatarStage } from "./avatar-stage";
+import { isHumanBoneName } from "./bone-maps";
+import { getErrorMessage, isAbortError } from "./errors";
+import { ExerciseSession, SessionExercise } from "./session";
+
+export type SessionStep =
+  | {
+      kind: "exercise";
+      exercise: SessionExercise;
+      exerciseIndex: number;
+      // 1-based set number
+      set: number;
+    }
+  | {
+      kind: "rest";
+      exercise: SessionExercise;
+      exerciseIndex: number;
+      // The set just completed
+      set: number;
+      seconds: number;
+    };
+
+export type SessionRunnerStatus = "idle" | "running" | "paused" | "finished";
+
+export type SessionRunnerState = {
+  status: SessionRunnerStatus;
+  stepIndex: number;
+  step: SessionStep | null;
+  // Seconds left in the current rest step
+  restRemaining: number;
+};
+
+export type SessionRunnerEventMap = {
+  statechange: { state: SessionRunnerState };
+  error: { message: string };
+};
+
+const REST_TICK_MS = 100;
+
+/** Flatten a session into its exercise and rest steps. */
+export const buildSessionSteps = (session: ExerciseSession): SessionStep[] => {
+  const steps: SessionStep[] = [];
+  session.exercises.forEach((exercise, exerciseIndex) => {
+    const isLastExercise = exerciseIndex === session.exercises.length - 1;
+    for (let set = 1; set <= exercise.sets; set++) {
+      steps.push({ kind: "exercise", exercise, exerciseIndex, set });
+
+      const isLastSet = set === exercise.sets;
+      if (exercise.restSeconds > 0 && !(isLastExercise && isLastSet)) {
+        steps.push({
+          kind: "rest",
+          exercise,
+          exerciseIndex,
+          set,
+          seconds: exercise.restSeconds,
+        });
+      }
+    }
+  });
+  return steps;
+};
+
+/**
+ * Drives a stage through an exercise session: each set plays the exercise
+ * clip for its number of reps, then rests. Supports pause, skip and restart.
+ */
+export class SessionRunner extends THREE.EventDispatcher<SessionRunnerEventMap> {
+  readonly session: ExerciseSession;
+  readonly steps: SessionStep[];
+
+  private readonly stage: AvatarStage;
+  private currentState: SessionRunnerState = {
+    status: "idle",
+    stepIndex: -1,
+    step: null,
+    restRemaining: 0,
+  };
+  // Bumped whenever the runner jumps, so superseded steps stop quietly
+  private runId = 0;
+  private cancelWait: (() => void) | null = null;
+
+  constructor(stage: AvatarStage, session: ExerciseSession) {
+    super();
+    this.stage = stage;
+    this.session = session;
+    this.steps = buildSessionSteps(session);
+  }
+
+  get state(): SessionRunnerState {
+    return this.currentState;
+  }
+
+  /** Start from the beginning, or resume if paused. */
+  start(): void {
+    if (this.currentState.status === "paused") {
+      this.resume();
+    } else if (this.currentState.status !== "running") {
+      this.runFrom(0);
+    }
+  }
+
+  pause(): void {
+    if (this.currentState.status !== "running") return;
+    this.stage.setPaused(true);
+    this.setState({ status: "paused" });
+  }
+
+  resume(): void {
+    if (this.currentState.status !== "paused") return;
+    this.stage.setPaused(false);
+    this.setState({ status: "running" });
+  }
+
+  /** Jump to the next step. */
+  skip(): void {
+    if (this.currentState.status === "idle") return;
+    this.stage.setPaused(false);
+    this.runFrom(this.currentState.stepIndex + 1);
+  }
+
+  restart(): void {
+    this.stage.setPaused(false);
+    this.runFrom(0);
+  }
+
+  /** Abandon the session and stop the avatar. */
+  stop(): void {
+    this.cancel();
+    this.stage.setPaused(false);
+    this.stage.stopAnimation();
+    this.setState({
+      status: "idle",
+      stepIndex: -1,
+      step: null,
+      restRemaining: 0,
+    });
+  }
+
+  /**
+   * Abandon the session when the runner goes away. The avatar is only
+   * stopped if the session was playing it, so clips played by hand go on.
+   */
+  dispose(): void {
+    const { status } = this.currentState;
+    if (status === "running" || status === "paused") {
+      this.stop();
+    } else {
+      this.cancel();
+    }
+  }
+
+  private cancel(): void {
+    this.runId++;
+    this.cancelWait?.();
+    this.cancelWait = null;
+  }
+
+  // Playing a clip or model by hand takes over from the session: end it,
+  // but leave the avatar to what was played
+  private handOver(): void {
+    this.cancel();
+    this.stage.setPaused(false);
+    this.setState({
+      status: "idle",
+      stepIndex: -1,
+      step: null,
+      restRemaining: 0,
+    });
+    this.dispatchEvent({
+      type: "error",
+      message: "The session stopped because something else was played",
+    });
+  }
+
+  private async runFrom(startIndex: number): Promise<void> {
+    this.cancel();
+    const runId = this.runId;
+
+    for (let index = startIndex; index < this.steps.length; index++) {
+      const step = this.steps[index];
+      this.setState({
+        status: "running",
+        stepIndex: index,
+        step,
+        restRemaining: step.kind === "rest" ? step.seconds : 0,
+      });
+
+      try {
+        await this.runStep(step, runId);
+      } catch (err) {
+        if (runId !== this.runId) return;
+        // A clip played by hand superseded the exercise's load
+        if (isAbortError(err)) {
+          this.handOver();
+          return;
+        }
+        this.stop();
+        this.dispatchEvent({ type: "error", message: getErrorMessage(err) });
+        return;
+      }
+      if (runId !== this.runId) return;
+    }
+
+    this.stage.resetExpressions();
+    this.setState({
+      status: "finished",
+      stepIndex: this.steps.length,
+      step: null,
+      restRemaining: 0,
+    });
+  }
+
+  private async runStep(step: SessionStep, runId: number): Promise<void> {
+    if (step.kind === "exercise") {
+      const { exercise } = step;
+      const action = await this.stage.playAnimation(exercise.animationUrl, {
+        repetitions: exercise.reps,
+      });
+      if (runId !== this.runId) return;
+
+      if (exercise.expression) {
+        this.stage.setExpression(exercise.expression);
+      } else {
+        this.stage.resetExpressions();
+      }
+      // Exercises that set up the camera also replace any bone following
+      const { camera, followBone } = exercise;
+      if (camera || followBone) {
+        const { cameraDirector } = this.stage;
+        cameraDirector.follow(
+          followBone && isHumanBoneName(followBone) ? followBone : null
+        );
+        if (camera) cameraDirector.moveTo(camera);
+      }
+      const finished = await this.waitForFinish(action);
+      if (!finished && runId === this.runId) this.handOver();
+      return;
+    }
+
+    if (this.session.restAnimationUrl) {
+      await this.stage.playAnimation(this.session.restAnimationUrl);
+      if (runId !== this.runId) return;
+    } else {
+      this.stage.stopAnimation();
+    }
+    this.stage.resetExpressions();
+    await this.waitForRest(step.seconds);
+  }
+
+  // Resolves false if the avatar moved on before the action finished
+  private waitForFinish(action: THREE.AnimationAction): Promise<boolean> {
+    return new Promise((resolve) => {
+      const unwatch = this.stage.watchAction(action, (finished) => {
+        this.cancelWait = null;
+        resolve(finished);
+      });
+      this.cancelWait = () => {
+        unwatch();
+        this.cancelWait = null;
+        resolve(true);
+      };
+    });
+  }
+
+  // Counts down only while running, so pausing also pauses the rest
+  private waitForRest(seconds: number): Promise<void> {
+    return new Promise((resolve) => {
+      let remaining = seconds;
+      const interval = window.setInterval(() => {
+        if (this.currentState.status !== "running") return;
+        remaining = Math.max(0, remaining - REST_TICK_MS / 1000);
+        this.setState({ restRemaining: remaining });
+        if (remaining <= 0) done();
+      }, REST_TICK_MS);
+      const done = () => {
+        window.clearInterval(interval);
+        this.cancelWait = null;
+        resolve();
+      };
+      this.cancelWait = done;
+    });
+  }
+
+  private setState(update: Partial<SessionRunnerState>): void {
+    this.currentState = { ...this.currentState, ...update };
+    this.dispatchEvent({ type: "statechange", state: this.currentState });
+  }
+}
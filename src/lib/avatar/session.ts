@@ -0,0 +1,199 @@
+import { isHumanBoneName } from "./bone-maps";
+import { RENDER_CONFIG } from "./config";
+
+/**
+ * Exercise-session documents: a therapist-authored JSON program of
+ * exercises, each played as sets of repetitions with rests in between.
+ * The matching JSON Schema lives at /schemas/exercise-session.schema.json.
+ */
+
+export type SessionExercise = {
+  name: string;
+  animationUrl: string;
+  sets: number;
+  reps: number;
+  // Seconds between sets, and after the last set before the next exercise
+  restSeconds: number;
+  expression?: string;
+  instructions?: string;
+  // Camera preset moved to when the exercise starts
+  camera?: string;
+  // Humanoid bone kept centred during the exercise
+  followBone?: string;
+};
+
+export type ExerciseSession = {
+  title: string;
+  // Played during rest periods; the avatar stands still if omitted
+  restAnimationUrl?: string;
+  exercises: SessionExercise[];
+};
+
+export type SessionValidationIssue = {
+  // JSON pointer-style location, e.g. "/exercises/0/reps"
+  path: string;
+  message: string;
+};
+
+export type SessionValidationResult =
+  | { session: ExerciseSession; errors: [] }
+  | { session: null; errors: SessionValidationIssue[] };
+
+const EXERCISE_KEYS = new Set([
+  "name",
+  "animationUrl",
+  "sets",
+  "reps",
+  "restSeconds",
+  "expression",
+  "instructions",
+  "camera",
+  "followBone",
+]);
+const SESSION_KEYS = new Set([
+  "$schema",
+  "title",
+  "restAnimationUrl",
+  "exercises",
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+class IssueCollector {
+  readonly issues: SessionValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path: path || "/", message });
+  }
+
+  unknownKeys(
+    value: Record<string, unknown>,
+    allowed: Set<string>,
+    path: string
+  ): void {
+    Object.keys(value).forEach((key) => {
+      if (!allowed.has(key)) this.add(`${path}/${key}`, "Unknown property");
+    });
+  }
+
+  string(
+    value: Record<string, unknown>,
+    key: string,
+    path: string,
+    required: boolean
+  ): void {
+    const field = value[key];
+    if (field === undefined) {
+      if (required) this.add(`${path}/${key}`, "Required");
+      return;
+    }
+    if (typeof field !== "string" || field.trim() === "") {
+      this.add(`${path}/${key}`, "Must be a non-empty string");
+    }
+  }
+
+  number(
+    value: Record<string, unknown>,
+    key: string,
+    path: string,
+    { min, integer }: { min: number; integer: boolean }
+  ): void {
+    const field = value[key];
+    if (field === undefined) {
+      this.add(`${path}/${key}`, "Required");
+      return;
+    }
+    if (typeof field !== "number" || !Number.isFinite(field)) {
+      this.add(`${path}/${key}`, "Must be a number");
+    } else if (integer && !Number.isInteger(field)) {
+      this.add(`${path}/${key}`, "Must be a whole number");
+    } else if (field < min) {
+      this.add(`${path}/${key}`, `Must be at least ${min}`);
+    }
+  }
+}
+
+const DEFAULT_CAMERA_PRESETS = Object.keys(RENDER_CONFIG.cameraPresets);
+
+/**
+ * Check an untrusted value against the session format. `cameraPresets`
+ * lists the preset names an exercise's `camera` may use.
+ */
+export const validateSession = (
+  value: unknown,
+  cameraPresets: string[] = DEFAULT_CAMERA_PRESETS
+): SessionValidationResult => {
+  const issues = new IssueCollector();
+
+  if (!isRecord(value)) {
+    issues.add("", "Session must be a JSON object");
+    return { session: null, errors: issues.issues };
+  }
+
+  issues.unknownKeys(value, SESSION_KEYS, "");
+  issues.string(value, "title", "", true);
+  issues.string(value, "restAnimationUrl", "", false);
+
+  const exercises = value.exercises;
+  if (!Array.isArray(exercises)) {
+    issues.add("/exercises", "Must be a list of exercises");
+  } else if (exercises.length === 0) {
+    issues.add("/exercises", "Must contain at least one exercise");
+  } else {
+    exercises.forEach((exercise, index) => {
+      const path = `/exercises/${index}`;
+      if (!isRecord(exercise)) {
+        issues.add(path, "Exercise must be an object");
+        return;
+      }
+      issues.unknownKeys(exercise, EXERCISE_KEYS, path);
+      issues.string(exercise, "name", path, true);
+      issues.string(exercise, "animationUrl", path, true);
+      issues.number(exercise, "sets", path, { min: 1, integer: true });
+      issues.number(exercise, "reps", path, { min: 1, integer: true });
+      issues.number(exercise, "restSeconds", path, { min: 0, integer: false });
+      issues.string(exercise, "expression", path, false);
+      issues.string(exercise, "instructions", path, false);
+      issues.string(exercise, "camera", path, false);
+      issues.string(exercise, "followBone", path, false);
+      const { camera, followBone } = exercise;
+      if (typeof camera === "string" && !cameraPresets.includes(camera)) {
+        issues.add(
+          `${path}/camera`,
+          `Must be a camera preset: ${cameraPresets.join(", ")}`
+        );
+      }
+      if (typeof followBone === "string" && !isHumanBoneName(followBone)) {
+        issues.add(`${path}/followBone`, "Must be a VRM humanoid bone name");
+      }
+    });
+  }
+
+  if (issues.issues.length > 0) {
+    return { session: null, errors: issues.issues };
+  }
+  return { session: value as ExerciseSession, errors: [] };
+};
+
+/** Parse JSON text, reporting syntax errors as validation issues. */
+export const parseSession = (
+  text: string,
+  cameraPresets?: string[]
+): SessionValidationResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return {
+      session: null,
+      errors: [
+        {
+          path: "/",
+          message: `Invalid JSON: ${e instanceof Error ? e.message : e}`,
+        },
+      ],
+    };
+  }
+  return validateSession(value, cameraPresets);
+};
@@ -0,0 +1,99 @@
+import { AvatarStage } from "./avatar-stage";
+
+export type StageLinkOptions = {
+  // Orbiting or zooming either view moves the other the same way
+  syncCameras: boolean;
+  // The follower's clip tracks the leader's progress and pause state
+  lockTime: boolean;
+};
+
+const DEFAULT_OPTIONS: StageLinkOptions = {
+  syncCameras: true,
+  lockTime: false,
+};
+
+/**
+ * Links two stages shown side by side, e.g. a coach demonstrating next to a
+ * patient's recorded attempt. Each stage keeps its own VRM, mixer and
+ * expressions; the link only shares the camera and, optionally, playback
+ * time. Time is locked by progress through the clip rather than seconds,
+ * so a slower attempt stays lined up with the demonstration.
+ */
+export class StageLink {
+  private readonly leader: AvatarStage;
+  private readonly follower: AvatarStage;
+  private currentOptions: StageLinkOptions;
+  // Set while copying one camera to the other, to ignore the echo
+  private syncing = false;
+
+  constructor(
+    leader: AvatarStage,
+    follower: AvatarStage,
+    options: Partial<StageLinkOptions> = {}
+  ) {
+    this.leader = leader;
+    this.follower = follower;
+    this.currentOptions = { ...DEFAULT_OPTIONS, ...options };
+    leader.controls.addEventListener("change", this.handleLeaderCamera);
+    follower.controls.addEventListener("change", this.handleFollowerCamera);
+    leader.addEventListener("update", this.handleLeaderUpdate);
+    if (this.currentOptions.syncCameras) this.copyCamera(leader, follower);
+  }
+
+  get options(): StageLinkOptions {
+    return this.currentOptions;
+  }
+
+  setOptions(options: Partial<StageLinkOptions>): void {
+    const wasSyncing = this.currentOptions.syncCameras;
+    this.currentOptions = { ...this.currentOptions, ...options };
+    if (this.currentOptions.syncCameras && !wasSyncing) {
+      this.copyCamera(this.leader, this.follower);
+    }
+  }
+
+  dispose(): void {
+    this.leader.controls.removeEventListener("change", this.handleLeaderCamera);
+    this.follower.controls.removeEventListener(
+      "change",
+      this.handleFollowerCamera
+    );
+    this.leader.removeEventListener("update", this.handleLeaderUpdate);
+  }
+
+  private copyCamera(from: AvatarStage, to: AvatarStage): void {
+    if (this.syncing) return;
+    this.syncing = true;
+    to.camera.position.copy(from.camera.position);
+    to.camera.quaternion.copy(from.camera.quaternion);
+    to.controls.target.copy(from.controls.target);
+    to.controls.update();
+    this.syncing = false;
+  }
+
+  private handleLeaderCamera = (): void => {
+    if (this.currentOptions.syncCameras) {
+      this.copyCamera(this.leader, this.follower);
+    }
+  };
+
+  private handleFollowerCamera = (): void => {
+    if (this.currentOptions.syncCameras) {
+      this.copyCamera(this.follower, this.leader);
+    }
+  };
+
+  private handleLeaderUpdate = (): void => {
+    if (!this.currentOptions.lockTime) return;
+
+    if (this.follower.paused !== this.leader.paused) {
+      this.follower.setPaused(this.leader.paused);
+    }
+    const leading = this.leader.action;
+    const following = this.follower.action;
+    if (!leading || !following) return;
+
+    const progress = leading.time / Math.max(leading.getClip().duration, 1e-6);
+    following.time = progress * following.getClip().duration;
+  };
+}
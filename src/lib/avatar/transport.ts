@@ -0,0 +1,179 @@
+import * as THREE from "three";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Seconds moved by one frame step
+export const FRAME_STEP = 1 / 30;
+
+export type LoopRange = {
+  start: number;
+  end: number;
+};
+
+export type TransportState = {
+  playing: boolean;
+  // Seconds into the active clip, and its length; 0 with no clip
+  time: number;
+  duration: number;
+  speed: number;
+  loop: LoopRange | null;
+};
+
+export type TransportEventMap = {
+  // Playing state, speed, loop or clip changed
+  change: { state: TransportState };
+  // Throttled progress while playing, like a media element's timeupdate
+  timeupdate: { state: TransportState };
+};
+
+// Seconds between timeupdate events
+const TIMEUPDATE_INTERVAL = 0.1;
+
+/**
+ * Media-player controls over the stage's active clip: play and pause,
+ * seeking, speed, an A-B loop and frame stepping, so a therapist can slow
+ * down or freeze a movement while explaining it. The loop range is cleared
+ * when a different clip starts.
+ */
+export class PlaybackTransport extends THREE.EventDispatcher<TransportEventMap> {
+  private readonly stage: AvatarStage;
+  private loopRange: LoopRange | null = null;
+  private clipName: string | null = null;
+  private sinceTimeUpdate = 0;
+
+  constructor(stage: AvatarStage) {
+    super();
+    this.stage = stage;
+    stage.addEventListener("update", this.handleUpdate);
+    stage.addEventListener("actionstart", this.handleActionStart);
+    stage.addEventListener("actionreplace", this.handleActionReplace);
+    stage.addEventListener("actionfinished", this.handleActionFinished);
+  }
+
+  get state(): TransportState {
+    const action = this.stage.action;
+    return {
+      playing: !this.stage.paused && !!action && !action.paused,
+      time: action?.time ?? 0,
+      duration: action?.getClip().duration ?? 0,
+      speed: this.stage.speed,
+      loop: this.loopRange,
+    };
+  }
+
+  /** Resume playback, restarting a clip that has finished. */
+  play(): void {
+    this.stage.setPaused(false);
+    const action = this.stage.action;
+    if (action?.paused) {
+      // Finished clips are held paused on their last frame
+      action.reset();
+      if (this.loopRange) action.time = this.loopRange.start;
+    }
+    this.emitChange();
+  }
+
+  pause(): void {
+    this.stage.setPaused(true);
+    this.emitChange();
+  }
+
+  togglePlay(): void {
+    if (this.state.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  seek(time: number): void {
+    this.stage.seek(time);
+    this.emitTimeUpdate();
+  }
+
+  setSpeed(speed: number): void {
+    this.stage.setSpeed(speed);
+    this.emitChange();
+  }
+
+  /** Pause and move one frame forwards (1) or backwards (-1). */
+  step(direction: 1 | -1): void {
+    this.stage.setPaused(true);
+    this.stage.seek(this.state.time + direction * FRAME_STEP);
+    this.emitChange();
+  }
+
+  /**
+   * Repeat the part of the clip between two times, or clear the loop with
+   * null. The ends may be given in either order.
+   */
+  setLoop(range: LoopRange | null): void {
+    this.loopRange = range && {
+      start: Math.min(range.start, range.end),
+      end: Math.max(range.start, range.end),
+    };
+    this.emitChange();
+  }
+
+  dispose(): void {
+    this.stage.removeEventListener("update", this.handleUpdate);
+    this.stage.removeEventListener("actionstart", this.handleActionStart);
+    this.stage.removeEventListener("actionreplace", this.handleActionReplace);
+    this.stage.removeEventListener("actionfinished", this.handleActionFinished);
+  }
+
+  private emitChange(): void {
+    this.dispatchEvent({ type: "change", state: this.state });
+  }
+
+  private emitTimeUpdate(): void {
+    this.sinceTimeUpdate = 0;
+    this.dispatchEvent({ type: "timeupdate", state: this.state });
+  }
+
+  private handleUpdate = ({ delta }: AvatarStageEventMap["update"]): void => {
+    const action = this.stage.action;
+    if (!action) {
+      // The clip was stopped
+      if (this.clipName !== null) {
+        this.clipName = null;
+        this.loopRange = null;
+        this.emitChange();
+      }
+      return;
+    }
+    if (this.stage.paused) return;
+
+    // Wrap back to A once past B, or if the clip itself wrapped before A
+    const loop = this.loopRange;
+    if (loop && loop.end - loop.start > FRAME_STEP) {
+      if (action.time >= loop.end || action.time < loop.start) {
+        this.stage.seek(loop.start);
+      }
+    }
+
+    this.sinceTimeUpdate += delta;
+    if (this.sinceTimeUpdate >= TIMEUPDATE_INTERVAL) this.emitTimeUpdate();
+  };
+
+  private handleActionStart = ({
+    action,
+  }: AvatarStageEventMap["actionstart"]): void => {
+    const clipName = action.getClip().name;
+    if (clipName !== this.clipName) {
+      this.clipName = clipName;
+      this.loopRange = null;
+    }
+    this.emitChange();
+  };
+
+  // Same clip and time, so the loop range still applies
+  private handleActionReplace = (): void => this.emitChange();
+
+  private handleActionFinished = ({
+    action,
+  }: AvatarStageEventMap["actionfinished"]): void => {
+    if (action === this.stage.action) this.emitChange();
+  };
+}
@@ -0,0 +1,393 @@
+import * as THREE from "three";
+import { VRM, VRMExpressionPresetName } from "@pixiv/three-vrm";
+import { AvatarStage, AvatarStageEventMap } from "./avatar-stage";
+import { getErrorMessage } from "./errors";
+import {
+  createVisemeWeights,
+  Viseme,
+  VISEMES,
+  VisemeWeights,
+} from "./lip-sync";
+
+/**
+ * Pre-computed mouth timings for a recorded line. Accepted files:
+ * - Rhubarb Lip Sync JSON: `{ "mouthCues": [{ "start", "end", "value" }] }`
+ * - A JSON list of cues, or `{ "cues": [...] }`, where each cue has a
+ *   `start`, optional `end` and `weight`, and a `value`/`viseme`/`phoneme`
+ * - Rhubarb-style TSV: `start<TAB>value` or `start<TAB>end<TAB>value` lines
+ * Values may be VRM viseme names, Rhubarb mouth shapes (A-H, X) or ARPAbet
+ * phonemes.
+ */
+
+export type VisemeCue = {
+  start: number;
+  end: number;
+  // null closes the mouth
+  viseme: Viseme | null;
+  weight: number;
+};
+
+export type VisemeTimeline = {
+  cues: VisemeCue[];
+  duration: number;
+};
+
+export type TimelineLipSyncEventMap = {
+  start: { timeline: VisemeTimeline };
+  end: object;
+};
+
+// Rhubarb's mouth shapes, see its README for the drawings
+const RHUBARB_VISEMES: Record<string, [Viseme | null, number]> = {
+  A: [null, 0], // P, B, M
+  B: ["ih", 0.4], // K, S, T, EE-ish clenched teeth
+  C: ["ee", 0.7], // EH, AE
+  D: ["aa", 1], // AA
+  E: ["oh", 0.8], // AO, ER
+  F: ["ou", 0.8], // UW, OW, W
+  G: ["ih", 0.3], // F, V
+  H: ["aa", 0.4], // L
+  X: [null, 0], // idle
+};
+
+// ARPAbet phonemes; lip closures shut the mouth
+const PHONEME_VISEMES: Record<string, [Viseme | null, number]> = {
+  AA: ["aa", 1],
+  AE: ["aa", 0.8],
+  AH: ["aa", 0.6],
+  AW: ["aa", 0.8],
+  AY: ["aa", 0.8],
+  EH: ["ee", 0.7],
+  ER: ["oh", 0.5],
+  EY: ["ee", 0.8],
+  IH: ["ih", 0.7],
+  IY: ["ee", 1],
+  Y: ["ih", 0.5],
+  AO: ["oh", 1],
+  OW: ["oh", 0.9],
+  OY: ["oh", 0.8],
+  UH: ["ou", 0.7],
+  UW: ["ou", 1],
+  W: ["ou", 0.6],
+  B: [null, 0],
+  M: [null, 0],
+  P: [null, 0],
+  F: ["ih", 0.2],
+  V: ["ih", 0.2],
+  SIL: [null, 0],
+  SP: [null, 0],
+};
+
+// Seconds to blend into each cue, capped at half the cue's length
+const CUE_BLEND = 0.06;
+// Audio drift from the mixer clock tolerated before seeking it back
+const SYNC_TOLERANCE = 0.08;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const resolveValue = (value: string): [Viseme | null, number] => {
+  const trimmed = value.trim();
+  const viseme = VISEMES.find((name) => name === trimmed.toLowerCase());
+  if (viseme) return [viseme, 1];
+
+  const upper = trimmed.toUpperCase();
+  if (trimmed.length === 1 && upper in RHUBARB_VISEMES) {
+    return RHUBARB_VISEMES[upper];
+  }
+  // Strip ARPAbet stress markers, e.g. "AH0"
+  const phoneme = upper.replace(/\d$/, "");
+  if (phoneme in PHONEME_VISEMES) return PHONEME_VISEMES[phoneme];
+  // Remaining consonants leave the mouth slightly open
+  if (/^[A-Z]{1,2}$/.test(phoneme)) return ["ih", 0.2];
+
+  throw new Error(`Unknown viseme or phoneme "${value}"`);
+};
+
+// A cue as written in the file, before ends are filled in
+type RawCue = Omit<VisemeCue, "end"> & { end?: number };
+
+const parseJsonCues = (value: unknown): RawCue[] => {
+  const list = isRecord(value) ? (value.mouthCues ?? value.cues) : value;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of cues or a "mouthCues" list');
+  }
+  return list.map((cue, index) => {
+    if (!isRecord(cue)) throw new Error(`Cue ${index} must be an object`);
+    const { start, end, weight } = cue;
+    const label = cue.value ?? cue.viseme ?? cue.phoneme;
+    if (typeof start !== "number" || !Number.isFinite(start)) {
+      throw new Error(`Cue ${index} needs a numeric "start"`);
+    }
+    if (end !== undefined && typeof end !== "number") {
+      throw new Error(`Cue ${index} has a non-numeric "end"`);
+    }
+    if (typeof label !== "string") {
+      throw new Error(`Cue ${index} needs a "value", "viseme" or "phoneme"`);
+    }
+    const [viseme, defaultWeight] = resolveValue(label);
+    return {
+      start,
+      end,
+      viseme,
+      weight: typeof weight === "number" ? weight : defaultWeight,
+    };
+  });
+};
+
+const parseTsvCues = (text: string): RawCue[] => {
+  const cues: RawCue[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.startsWith("#")) return;
+    const fields = line.trim().split(/\s+/);
+    const numbers = fields.slice(0, -1).map(Number);
+    if (
+      numbers.length < 1 ||
+      numbers.length > 2 ||
+      numbers.some((n) => !Number.isFinite(n))
+    ) {
+      throw new Error(
+        `Line ${index + 1}: expected "start<TAB>value" or "start<TAB>end<TAB>value"`
+      );
+    }
+    try {
+      const [viseme, weight] = resolveValue(fields[fields.length - 1]);
+      cues.push({ start: numbers[0], end: numbers[1], viseme, weight });
+    } catch (err) {
+      throw new Error(`Line ${index + 1}: ${getErrorMessage(err)}`);
+    }
+  });
+  return cues;
+};
+
+/** Parse a JSON or TSV timing file into sorted, non-overlapping cues. */
+export const parseVisemeTimeline = (text: string): VisemeTimeline => {
+  const trimmed = text.trim();
+  let json: unknown;
+  let raw: RawCue[];
+  try {
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        json = JSON.parse(trimmed);
+      } catch (err) {
+        throw new Error(`Invalid JSON: ${getErrorMessage(err)}`);
+      }
+      raw = parseJsonCues(json);
+    } else {
+      raw = parseTsvCues(trimmed);
+    }
+  } catch (err) {
+    throw new Error(`Invalid viseme timeline: ${getErrorMessage(err)}`);
+  }
+
+  // Cues without an end run until the next one starts
+  const sorted = [...raw].sort((a, b) => a.start - b.start);
+  const cues: VisemeCue[] = sorted.map((cue, index) => {
+    const next = sorted[index + 1];
+    const end = Math.max(cue.start, cue.end ?? next?.start ?? cue.start);
+    return {
+      start: cue.start,
+      end: next ? Math.min(end, next.start) : end,
+      viseme: cue.viseme,
+      weight: THREE.MathUtils.clamp(cue.weight, 0, 1),
+    };
+  });
+
+  const metadata = isRecord(json) ? json.metadata : undefined;
+  const declared =
+    isRecord(metadata) && typeof metadata.duration === "number"
+      ? metadata.duration
+      : 0;
+  const duration = Math.max(declared, cues[cues.length - 1]?.end ?? 0);
+  if (cues.length === 0 || duration <= 0) {
+    throw new Error("Invalid viseme timeline: No cues found");
+  }
+  return { cues, duration };
+};
+
+/**
+ * Bake a timeline into one weight track per viseme expression, bound
+ * through the expression manager's track names, so the mouth is sampled
+ * from the mixer clock rather than from wall time.
+ */
+export const createVisemeClip = (
+  timeline: VisemeTimeline,
+  vrm: VRM
+): THREE.AnimationClip => {
+  const expressionManager = vrm.expressionManager;
+  if (!expressionManager) {
+    throw new Error("The loaded VRM has no expressions for lip-sync");
+  }
+
+  const times: number[] = [];
+  const frames: VisemeWeights[] = [];
+  let previous = createVisemeWeights();
+  const addKey = (time: number, weights: VisemeWeights) => {
+    if (times.length > 0 && time <= times[times.length - 1]) return;
+    times.push(time);
+    frames.push(weights);
+  };
+
+  timeline.cues.forEach((cue) => {
+    const weights = createVisemeWeights();
+    if (cue.viseme) weights[cue.viseme] = cue.weight;
+    const blend = Math.min(CUE_BLEND, (cue.end - cue.start) / 2);
+    addKey(cue.start, previous);
+    addKey(cue.start + blend, weights);
+    previous = weights;
+  });
+  addKey(timeline.duration, createVisemeWeights());
+
+  const tracks = VISEMES.flatMap((viseme) => {
+    const trackName = expressionManager.getExpressionTrackName(
+      viseme as VRMExpressionPresetName
+    );
+    if (!trackName) return [];
+    return [
+      new THREE.NumberKeyframeTrack(
+        trackName,
+        times,
+        frames.map((weights) => weights[viseme])
+      ),
+    ];
+  });
+  if (tracks.length === 0) {
+    throw new Error("The loaded VRM has no viseme expressions");
+  }
+  return new THREE.AnimationClip("visemes", timeline.duration, tracks);
+};
+
+/** Fetch and parse a timing file. */
+export const loadVisemeTimeline = async (
+  url: string
+): Promise<VisemeTimeline> => {
+  let text: string;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    text = await response.text();
+  } catch (err) {
+    throw new Error(`Failed to load viseme timeline: ${getErrorMessage(err)}`);
+  }
+  return parseVisemeTimeline(text);
+};
+
+/**
+ * Plays a viseme timeline as a mixer overlay next to its audio clip. The
+ * mixer is the clock: the audio follows the track's time, so pausing the
+ * stage or scrubbing the active clip keeps voice and mouth in step.
+ */
+export class TimelineLipSync extends THREE.EventDispatcher<TimelineLipSyncEventMap> {
+  private readonly stage: AvatarStage;
+  private action: THREE.AnimationAction | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private cancelWait: (() => void) | null = null;
+  // Bumped on every play/stop so a play still starting its audio bails out
+  private playId = 0;
+
+  constructor(stage: AvatarStage) {
+    super();
+    this.stage = stage;
+    stage.addEventListener("update", this.handleUpdate);
+    stage.addEventListener("load", this.handleLoad);
+  }
+
+  get playing(): boolean {
+    return this.action !== null;
+  }
+
+  /**
+   * Play the timeline, with its audio if given. Resolves when the timeline
+   * ends or is stopped.
+   */
+  async play(timeline: VisemeTimeline, audioUrl?: string): Promise<void> {
+    this.stop();
+    const playId = ++this.playId;
+    const vrm = this.stage.vrm;
+    if (!vrm) throw new Error("No VRM loaded");
+
+    const clip = createVisemeClip(timeline, vrm);
+    const audio = audioUrl ? new Audio(audioUrl) : null;
+    // Held from the start so a stop while it loads can release it
+    this.audio = audio;
+    if (audio) {
+      try {
+        await audio.play();
+      } catch (err) {
+        if (playId === this.playId) this.release();
+        throw new Error(`Failed to play audio: ${getErrorMessage(err)}`);
+      }
+      if (playId !== this.playId) return;
+    }
+
+    const action = this.stage.playOverlay(clip);
+    this.action = action;
+    this.dispatchEvent({ type: "start", timeline });
+
+    await new Promise<void>((resolve) => {
+      const handleFinished = ({
+        action: finished,
+      }: AvatarStageEventMap["actionfinished"]) => {
+        if (finished === action) done();
+      };
+      const done = () => {
+        this.stage.removeEventListener("actionfinished", handleFinished);
+        this.cancelWait = null;
+        resolve();
+      };
+      this.stage.addEventListener("actionfinished", handleFinished);
+      this.cancelWait = done;
+    });
+    if (this.action === action) this.release();
+  }
+
+  stop(): void {
+    this.playId++;
+    this.cancelWait?.();
+    this.cancelWait = null;
+    this.release();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.stage.removeEventListener("update", this.handleUpdate);
+    this.stage.removeEventListener("load", this.handleLoad);
+  }
+
+  private release(): void {
+    this.audio?.pause();
+    this.audio?.removeAttribute("src");
+    this.audio = null;
+    if (!this.action) return;
+    this.stage.stopOverlay(this.action);
+    // Each play bakes a new clip, so drop the old one from the mixer
+    this.action.getMixer().uncacheClip(this.action.getClip());
+    this.action = null;
+    this.dispatchEvent({ type: "end" });
+  }
+
+  // Keep the audio on the mixer clock
+  private handleUpdate = (): void => {
+    const { action, audio } = this;
+    if (!action || !audio) return;
+
+    // Follow seeks even while paused, so scrubbing moves the audio too
+    if (Math.abs(audio.currentTime - action.time) > SYNC_TOLERANCE) {
+      audio.currentTime = action.time;
+    }
+    const halted = this.stage.paused || action.paused || !action.isRunning();
+    if (halted) {
+      if (!audio.paused) audio.pause();
+      return;
+    }
+    audio.playbackRate = action.getEffectiveTimeScale();
+    if (audio.paused && !audio.ended) {
+      audio.play().catch(() => {});
+    }
+  };
+
+  // A new model gets a fresh mixer, which drops the overlay
+  private handleLoad = (): void => this.stop();
+}